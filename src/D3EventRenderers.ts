@@ -0,0 +1,247 @@
+import * as d3 from "d3";
+import type { EventData } from "./D3Timeline";
+
+/**
+ * 事件的几何尺寸，随所在时间线的高度缩放
+ * @interface EventGeometry
+ */
+export interface EventGeometry {
+  /** 范围事件矩形的高度 */
+  rangeHeight: number;
+  /** 点事件圆形的半径 */
+  radius: number;
+  /** 点事件标题在圆心上方的距离 */
+  titleOffset: number;
+}
+
+/**
+ * 传递给事件渲染器的上下文
+ *
+ * @remarks
+ * 事件元素（`g.event`）已平移到事件开始时间和所在行的中心，渲染器以原点为锚点绘制。
+ * 坐标均为布局坐标：时间沿横轴，纵向模式下由外层变换映射到屏幕。
+ * @interface EventRenderContext
+ */
+export interface EventRenderContext {
+  /** 当前（缩放后的）比例尺 */
+  xScale: d3.ScaleTime<number, number>;
+  /** 获取事件的几何尺寸 */
+  geometry: (event: EventData) => EventGeometry;
+  /** 过渡动画时长（毫秒），0 表示直接更新（例如缩放过程中） */
+  duration: number;
+  /** 是否为纵向模式 */
+  vertical: boolean;
+  /** 文字元素的变换，纵向模式下用于保持文字正向 */
+  textTransform: string | null;
+  /** 文字位置属性，纵向模式下横纵坐标互换 */
+  textAttr: (attr: "x" | "y") => "x" | "y";
+  /** 事件颜色上可读性更好的文字颜色 */
+  textColor: (event: EventData) => string;
+  /** 阴影滤镜，可用于 filter 属性 */
+  shadowFilter: string;
+}
+
+/**
+ * canvas 渲染模式下传递给事件渲染器的上下文
+ * @interface EventCanvasContext
+ */
+export interface EventCanvasContext {
+  /** 事件的几何尺寸 */
+  geometry: EventGeometry;
+  /** 描边颜色（来自主题） */
+  stroke: string;
+  /** 事件颜色上可读性更好的文字颜色 */
+  textColor: string;
+  /** 在布局坐标中绘制正向的文字 */
+  fillText: (text: string, x: number, y: number) => void;
+}
+
+/**
+ * 事件选择集：enter 时为新创建的事件元素，update 时为所有使用该渲染器的事件元素
+ * @type EventSelection
+ */
+export type EventSelection = d3.Selection<
+  SVGGElement,
+  EventData,
+  SVGGElement,
+  unknown
+>;
+
+/**
+ * 事件渲染器
+ *
+ * @remarks
+ * 渲染器只负责事件元素内部的图形，事件元素的定位、工具提示、点击、拖拽和键盘焦点由时间轴统一处理。
+ * 图形元素建议使用 `d3-event-shape` 类名以获得选中和焦点样式。
+ * @interface EventRenderer
+ */
+export interface EventRenderer {
+  /** 创建事件元素的内部图形 */
+  enter(selection: EventSelection, context: EventRenderContext): void;
+  /** 更新事件元素的内部图形，数据变化和缩放时都会调用 */
+  update(selection: EventSelection, context: EventRenderContext): void;
+  /** 阶段线箭头与事件中心的距离，默认为点事件的半径 */
+  anchorRadius?(event: EventData, context: EventRenderContext): number;
+  /** canvas 渲染模式下以原点为锚点绘制图形，未提供时按默认的圆形或矩形绘制 */
+  drawCanvas?(
+    context: CanvasRenderingContext2D,
+    event: EventData,
+    canvas: EventCanvasContext,
+  ): void;
+}
+
+/**
+ * 创建以路径绘制的点状渲染器，标题位于图形上方（纵向模式下位于左侧）
+ * @param path - 根据尺寸生成以原点为中心的路径
+ * @param scale - 图形尺寸相对点事件半径的比例
+ */
+function createShapeRenderer(
+  path: (size: number) => string,
+  scale: number,
+): EventRenderer {
+  const size = (event: EventData, context: EventRenderContext) =>
+    context.geometry(event).radius * scale;
+  return {
+    enter(selection, context) {
+      selection
+        .append("path")
+        .attr("class", "d3-event-shape")
+        .attr("fill", (d) => d.color)
+        .attr("stroke-width", 2)
+        .attr("filter", context.shadowFilter);
+      appendTitle(selection, context);
+    },
+    update(selection, context) {
+      const shapes = selection.select<SVGPathElement>(".d3-event-shape");
+      const shapePath = (d: EventData) => path(size(d, context));
+      if (context.duration > 0) {
+        shapes
+          .transition()
+          .duration(context.duration)
+          .attr("d", shapePath)
+          .attr("fill", (d) => d.color);
+      } else {
+        shapes
+          .interrupt()
+          .attr("d", shapePath)
+          .attr("fill", (d) => d.color);
+      }
+      updateTitle(selection, context, (d) => size(d, context));
+    },
+    anchorRadius: size,
+    drawCanvas(context, event, canvas) {
+      const shape = new Path2D(path(canvas.geometry.radius * scale));
+      context.fillStyle = event.color;
+      context.strokeStyle = canvas.stroke;
+      context.lineWidth = 2;
+      context.fill(shape);
+      context.stroke(shape);
+    },
+  };
+}
+
+function appendTitle(selection: EventSelection, context: EventRenderContext) {
+  selection
+    .append("text")
+    .attr("class", "d3-event-text")
+    .attr("transform", context.textTransform)
+    .attr("text-anchor", context.vertical ? "end" : "middle")
+    .attr("dominant-baseline", context.vertical ? "middle" : null)
+    .style("fill", "var(--d3-timeline-text)");
+}
+
+function updateTitle(
+  selection: EventSelection,
+  context: EventRenderContext,
+  size: (event: EventData) => number,
+) {
+  // 图形大于默认圆形时，标题随之外移
+  selection
+    .select(".d3-event-text")
+    .attr(context.textAttr("x"), 0)
+    .attr(
+      context.textAttr("y"),
+      (d) =>
+        -Math.max(
+          context.geometry(d).titleOffset,
+          size(d) + context.geometry(d).titleOffset / 2,
+        ),
+    )
+    .text((d) => d.title);
+}
+
+const diamond = (s: number) => `M0,${-s}L${s},0L0,${s}L${-s},0Z`;
+const square = (s: number) => `M${-s},${-s}H${s}V${s}H${-s}Z`;
+const triangle = (s: number) => {
+  const half = (s * Math.sqrt(3)) / 2;
+  return `M0,${-s}L${half},${s / 2}L${-half},${s / 2}Z`;
+};
+
+// 图标：圆形底色上显示 icon 字段中的字符（例如 emoji 或图标字体）
+const icon: EventRenderer = {
+  enter(selection, context) {
+    selection
+      .append("circle")
+      .attr("class", "d3-event-shape")
+      .attr("stroke-width", 2)
+      .attr("filter", context.shadowFilter);
+    selection
+      .append("text")
+      .attr("class", "d3-event-icon")
+      .attr("transform", context.textTransform)
+      .attr("text-anchor", "middle")
+      .attr("dominant-baseline", "central");
+    appendTitle(selection, context);
+  },
+  update(selection, context) {
+    const radius = (d: EventData) => context.geometry(d).radius * 1.5;
+    const circles = selection.select<SVGCircleElement>(".d3-event-shape");
+    if (context.duration > 0) {
+      circles
+        .transition()
+        .duration(context.duration)
+        .attr("r", radius)
+        .attr("fill", (d) => d.color);
+    } else {
+      circles
+        .interrupt()
+        .attr("r", radius)
+        .attr("fill", (d) => d.color);
+    }
+    selection
+      .select(".d3-event-icon")
+      .attr("font-size", (d) => radius(d) * 1.2)
+      .style("fill", (d) => context.textColor(d))
+      .text((d) => d.icon ?? "");
+    updateTitle(selection, context, radius);
+  },
+  anchorRadius: (event, context) => context.geometry(event).radius * 1.5,
+  drawCanvas(context, event, canvas) {
+    const radius = canvas.geometry.radius * 1.5;
+    context.fillStyle = event.color;
+    context.strokeStyle = canvas.stroke;
+    context.lineWidth = 2;
+    context.beginPath();
+    context.arc(0, 0, radius, 0, Math.PI * 2);
+    context.fill();
+    context.stroke();
+    if (event.icon) {
+      context.save();
+      context.font = `${radius * 1.2}px sans-serif`;
+      context.fillStyle = canvas.textColor;
+      context.textBaseline = "middle";
+      canvas.fillText(event.icon, 0, 0);
+      context.restore();
+    }
+  },
+};
+
+/**
+ * 内置事件渲染器，每个时间轴实例在此基础上注册自己的渲染器
+ */
+export const BuiltinEventRenderers: Record<string, EventRenderer> = {
+  diamond: createShapeRenderer(diamond, 1.4),
+  square: createShapeRenderer(square, 0.9),
+  triangle: createShapeRenderer(triangle, 1.4),
+  icon,
+};
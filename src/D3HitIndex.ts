@@ -0,0 +1,103 @@
+interface HitEntry<T> {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  item: T;
+  /** 插入顺序，越大表示绘制得越晚（越靠上） */
+  order: number;
+}
+
+/**
+ * 矩形命中检测索引
+ *
+ * @typeParam T - 索引元素的类型
+ *
+ * @remarks
+ * 使用均匀网格（空间哈希）存储矩形区域，查询时只需检查指针所在网格内的元素。
+ * 多个矩形重叠时，返回最后插入（即最后绘制、位于最上层）的元素。
+ *
+ * @example
+ * ```typescript
+ * const index = new HitIndex<string>();
+ * index.add(0, 0, 100, 20, "a");
+ * index.add(50, 0, 150, 20, "b");
+ * index.find(60, 10); // 返回 "b"
+ * index.find(10, 10); // 返回 "a"
+ * ```
+ */
+class HitIndex<T> {
+  private readonly cellSize: number;
+  private cells = new Map<string, HitEntry<T>[]>();
+  private size = 0;
+
+  constructor(cellSize: number = 64) {
+    this.cellSize = cellSize;
+  }
+
+  /**
+   * 添加一个矩形区域
+   * @param x0 - 左边界
+   * @param y0 - 上边界
+   * @param x1 - 右边界
+   * @param y1 - 下边界
+   * @param item - 关联的元素
+   */
+  add(x0: number, y0: number, x1: number, y1: number, item: T): void {
+    const entry: HitEntry<T> = { x0, y0, x1, y1, item, order: this.size++ };
+    const [cx0, cy0] = this.toCell(x0, y0);
+    const [cx1, cy1] = this.toCell(x1, y1);
+    for (let cx = cx0; cx <= cx1; cx++) {
+      for (let cy = cy0; cy <= cy1; cy++) {
+        const key = `${cx},${cy}`;
+        const cell = this.cells.get(key);
+        if (cell) {
+          cell.push(entry);
+        } else {
+          this.cells.set(key, [entry]);
+        }
+      }
+    }
+  }
+
+  /**
+   * 查找包含指定坐标的最上层元素
+   * @param x - 横坐标
+   * @param y - 纵坐标
+   * @returns 命中的元素，未命中时返回 undefined
+   */
+  find(x: number, y: number): T | undefined {
+    const [cx, cy] = this.toCell(x, y);
+    const cell = this.cells.get(`${cx},${cy}`);
+    if (!cell) return undefined;
+
+    let hit: HitEntry<T> | undefined;
+    for (const entry of cell) {
+      if (
+        x >= entry.x0 &&
+        x <= entry.x1 &&
+        y >= entry.y0 &&
+        y <= entry.y1 &&
+        (!hit || entry.order > hit.order)
+      ) {
+        hit = entry;
+      }
+    }
+    return hit?.item;
+  }
+
+  /**
+   * 清空索引
+   */
+  clear(): void {
+    this.cells.clear();
+    this.size = 0;
+  }
+
+  private toCell(x: number, y: number): [number, number] {
+    return [Math.floor(x / this.cellSize), Math.floor(y / this.cellSize)];
+  }
+}
+
+export { HitIndex };
+export default HitIndex;
@@ -1,9 +1,10 @@
 import { TimeLocaleDefinition } from "d3";
+import type { EventStatus } from "./D3Timeline";
 /**
- * 语言编码：遵循ISO639_1标准
+ * 语言编码：遵循ISO639_1标准，内置 'zh' 和 'en'，其他语言需先通过 {@link registerLocale} 注册
  * @type Locale
  */
-export type Locale = "zh" | "en";
+export type Locale = "zh" | "en" | (string & {});
 /**
  * timeLocalDefinitions定义
  */
@@ -97,3 +98,223 @@ export const TimeLocaleDefinitions: Record<Locale, TimeLocaleDefinition> = {
     ],
   },
 };
+
+/**
+ * 时长单位
+ * @type DurationUnit
+ */
+export type DurationUnit =
+  "second" | "minute" | "hour" | "day" | "week" | "month" | "year";
+
+/**
+ * 界面文案目录
+ *
+ * @remarks
+ * 文案中的 `{name}` 占位符在使用时替换为对应参数，参见 {@link formatMessage}。
+ * @interface LocaleMessages
+ */
+export interface LocaleMessages {
+  /** 图表的无障碍标签 */
+  chartLabel: string;
+  /** 工具提示中的时间线字段 */
+  timeline: string;
+  /** 工具提示中的开始时间字段 */
+  start: string;
+  /** 工具提示中的结束时间字段 */
+  end: string;
+  /** 工具提示中的持续时间字段 */
+  duration: string;
+  /** 工具提示中的进度字段 */
+  progress: string;
+  /** 工具提示中的状态字段 */
+  status: string;
+  /** 事件状态的名称 */
+  statuses: Record<EventStatus, string>;
+  /** 找不到所属时间线时的占位文案 */
+  unknown: string;
+  /** 当前时间标记的标签 */
+  now: string;
+  /** 可见范围变化时的播报，参数：start、end */
+  visibleRange: string;
+  /** 聚合标记的无障碍标签，参数：count */
+  clusterCount: string;
+  /** 溢出标记的无障碍标签，参数：count */
+  overflowCount: string;
+  /** 数据导入失败的日志，参数：message */
+  importFailed: string;
+  /** 时长单位，`one` 用于数量为1的情况，`other` 用于其他数量，参数：count */
+  durationUnits: Record<DurationUnit, { one: string; other: string }>;
+}
+
+/**
+ * 各语言的界面文案
+ */
+export const MessageDefinitions: Record<Locale, LocaleMessages> = {
+  en: {
+    chartLabel: "Timeline",
+    timeline: "Timeline",
+    start: "Start",
+    end: "End",
+    duration: "Duration",
+    progress: "Progress",
+    status: "Status",
+    statuses: {
+      planned: "Planned",
+      active: "Active",
+      done: "Done",
+      blocked: "Blocked",
+      cancelled: "Cancelled",
+    },
+    unknown: "Unknown",
+    now: "Now",
+    visibleRange: "Showing {start} – {end}",
+    clusterCount: "{count} events",
+    overflowCount: "{count} more events",
+    importFailed: "Data import failed: {message}",
+    durationUnits: {
+      second: { one: "{count} second", other: "{count} seconds" },
+      minute: { one: "{count} minute", other: "{count} minutes" },
+      hour: { one: "{count} hour", other: "{count} hours" },
+      day: { one: "{count} day", other: "{count} days" },
+      week: { one: "{count} week", other: "{count} weeks" },
+      month: { one: "{count} month", other: "{count} months" },
+      year: { one: "{count} year", other: "{count} years" },
+    },
+  },
+  zh: {
+    chartLabel: "时间轴",
+    timeline: "时间线",
+    start: "开始",
+    end: "结束",
+    duration: "持续",
+    progress: "进度",
+    status: "状态",
+    statuses: {
+      planned: "计划中",
+      active: "进行中",
+      done: "已完成",
+      blocked: "受阻",
+      cancelled: "已取消",
+    },
+    unknown: "未知",
+    now: "现在",
+    visibleRange: "显示 {start} 至 {end}",
+    clusterCount: "{count} 个事件",
+    overflowCount: "另有 {count} 个事件",
+    importFailed: "数据导入失败: {message}",
+    durationUnits: {
+      second: { one: "{count} 秒", other: "{count} 秒" },
+      minute: { one: "{count} 分钟", other: "{count} 分钟" },
+      hour: { one: "{count} 小时", other: "{count} 小时" },
+      day: { one: "{count} 天", other: "{count} 天" },
+      week: { one: "{count} 周", other: "{count} 周" },
+      month: { one: "{count} 个月", other: "{count} 个月" },
+      year: { one: "{count} 年", other: "{count} 年" },
+    },
+  },
+};
+
+/**
+ * 替换文案中的占位符
+ * @param template - 文案模板，例如 `"{count} events"`
+ * @param params - 占位符参数
+ * @returns 替换后的文案，未提供的占位符保持原样
+ *
+ * @example
+ * ```typescript
+ * formatMessage("{count} events", { count: 3 }); // 返回 "3 events"
+ * ```
+ */
+export function formatMessage(
+  template: string,
+  params: Record<string, string | number> = {},
+): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in params ? String(params[key]) : match,
+  );
+}
+
+// 从大到小排列的时长单位（毫秒），月和年按平均长度计算
+const DURATION_UNITS: [DurationUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60 * 1000],
+  ["month", 30 * 24 * 60 * 60 * 1000],
+  ["week", 7 * 24 * 60 * 60 * 1000],
+  ["day", 24 * 60 * 60 * 1000],
+  ["hour", 60 * 60 * 1000],
+  ["minute", 60 * 1000],
+  ["second", 1000],
+];
+
+/**
+ * 将时长格式化为相对描述
+ *
+ * @remarks
+ * 选择不小于1的最大单位，并四舍五入为整数，例如 3.4 天格式化为 "3 days" / "3 天"。
+ * 四舍五入后达到更大的单位时改用更大的单位，例如 59.6 秒格式化为 "1 minute"。
+ *
+ * @param ms - 时长（毫秒）
+ * @param messages - 界面文案目录
+ * @returns 格式化后的时长
+ *
+ * @example
+ * ```typescript
+ * formatDuration(3 * 24 * 60 * 60 * 1000, MessageDefinitions.en); // 返回 "3 days"
+ * formatDuration(3 * 24 * 60 * 60 * 1000, MessageDefinitions.zh); // 返回 "3 天"
+ * ```
+ */
+export function formatDuration(ms: number, messages: LocaleMessages): string {
+  const abs = Math.abs(ms);
+  let index = DURATION_UNITS.findIndex(([, size]) => abs >= size);
+  if (index < 0) index = DURATION_UNITS.length - 1;
+  while (
+    index > 0 &&
+    Math.round(abs / DURATION_UNITS[index][1]) * DURATION_UNITS[index][1] >=
+      DURATION_UNITS[index - 1][1]
+  ) {
+    index--;
+  }
+  const [unit, size] = DURATION_UNITS[index];
+  const count = Math.round(abs / size);
+  const forms = messages.durationUnits[unit];
+  return formatMessage(count === 1 ? forms.one : forms.other, { count });
+}
+
+/**
+ * 注册自定义语言
+ *
+ * @remarks
+ * 注册后即可在 `locale` 选项或 `changeLocale` 中使用该语言编码。
+ * 重复注册同一编码会覆盖之前的定义，未提供的文案回退到英文。
+ *
+ * @param code - 语言编码，例如 'fr'
+ * @param definition - d3 时间格式定义
+ * @param messages - 界面文案
+ *
+ * @example
+ * ```typescript
+ * registerLocale("fr", frTimeLocale, {
+ *   start: "Début",
+ *   end: "Fin",
+ * });
+ * timeline.changeLocale("fr");
+ * ```
+ */
+export function registerLocale(
+  code: Locale,
+  definition: TimeLocaleDefinition,
+  messages: Partial<LocaleMessages> = {},
+): void {
+  TimeLocaleDefinitions[code] = definition;
+  MessageDefinitions[code] = {
+    ...MessageDefinitions.en,
+    ...messages,
+    durationUnits: {
+      ...MessageDefinitions.en.durationUnits,
+      ...messages.durationUnits,
+    },
+    statuses: {
+      ...MessageDefinitions.en.statuses,
+      ...messages.statuses,
+    },
+  };
+}
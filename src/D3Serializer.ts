@@ -32,12 +32,18 @@ class JSONSerializer {
       value,
       (_, v) => {
         if (v && typeof v === "object") {
+          // Date 的 toJSON 先于 replacer 执行，需要在父对象上替换；
+          // 替换在副本上进行，避免修改被序列化的原始数据
+          let copy: Record<string, unknown> | unknown[] | undefined;
           for (const subKey in v) {
             const subValue = v[subKey];
             if (subValue instanceof Date) {
-              v[subKey] = dateReplacer(subValue);
+              copy ??= Array.isArray(v) ? [...v] : { ...v };
+              (copy as Record<string, unknown>)[subKey] =
+                dateReplacer(subValue);
             }
           }
+          return copy ?? v;
         } else if (v instanceof Date) {
           return dateReplacer(v);
         }
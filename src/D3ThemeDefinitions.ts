@@ -0,0 +1,176 @@
+import * as d3 from "d3";
+/**
+ * 主题设计令牌
+ *
+ * @remarks
+ * 每个令牌都会以 `--d3-timeline-<kebab-case>` 形式的 CSS 自定义属性写入容器元素，
+ * 样式表通过 `var()` 引用这些属性，因此切换主题时无需重建 DOM。
+ * canvas 渲染模式无法读取 CSS 变量，直接使用令牌的取值绘制。
+ * @interface ThemeTokens
+ */
+export interface ThemeTokens {
+  /** 图表背景色 */
+  background: string;
+  /** 时间线背景渐变的起始颜色 */
+  laneGradientStart: string;
+  /** 时间线背景渐变的结束颜色 */
+  laneGradientEnd: string;
+  /** 主要文字颜色（时间线标签、点事件标题） */
+  text: string;
+  /** 次要文字颜色（溢出标记、分组按钮） */
+  mutedText: string;
+  /** 深色事件上的文字颜色 */
+  eventTextLight: string;
+  /** 浅色事件上的文字颜色 */
+  eventTextDark: string;
+  /** 点事件和聚合标记的描边颜色 */
+  eventStroke: string;
+  /** 坐标轴颜色 */
+  axis: string;
+  /** 网格线颜色 */
+  grid: string;
+  /** 选中事件的描边颜色 */
+  selection: string;
+  /** 键盘焦点的描边颜色 */
+  focus: string;
+  /** 标记线的默认颜色 */
+  marker: string;
+  /** 范围事件进度条的颜色，叠加在事件颜色之上 */
+  progress: string;
+  /** 框选区域的填充颜色 */
+  brushFill: string;
+  /** 工具提示背景色 */
+  tooltipBackground: string;
+  /** 工具提示文字颜色 */
+  tooltipText: string;
+  /** 工具提示阴影 */
+  tooltipShadow: string;
+}
+
+/**
+ * 内置主题名称
+ * @type ThemeName
+ */
+export type ThemeName = "light" | "dark";
+
+/**
+ * 主题配置：内置主题名称，或基于浅色主题覆盖的部分令牌
+ * @type Theme
+ */
+export type Theme = ThemeName | Partial<ThemeTokens>;
+
+/**
+ * 内置主题定义
+ */
+export const ThemeDefinitions: Record<ThemeName, ThemeTokens> = {
+  light: {
+    background: "transparent",
+    laneGradientStart: "#667eea",
+    laneGradientEnd: "#764ba2",
+    text: "#333",
+    mutedText: "#999",
+    eventTextLight: "#fff",
+    eventTextDark: "#333",
+    eventStroke: "#fff",
+    axis: "#333",
+    grid: "#e0e0e0",
+    selection: "#ff9800",
+    focus: "#1a73e8",
+    marker: "#e53935",
+    progress: "rgba(0, 0, 0, 0.25)",
+    brushFill: "rgba(26, 115, 232, 0.1)",
+    tooltipBackground: "rgba(0, 0, 0, 0.9)",
+    tooltipText: "#fff",
+    tooltipShadow: "0 4px 12px rgba(0, 0, 0, 0.3)",
+  },
+  dark: {
+    background: "#1e1f24",
+    laneGradientStart: "#8c9eff",
+    laneGradientEnd: "#b388ff",
+    text: "#e6e6e6",
+    mutedText: "#9a9a9a",
+    eventTextLight: "#fff",
+    eventTextDark: "#1e1f24",
+    eventStroke: "#2b2d33",
+    axis: "#bbb",
+    grid: "#3a3c42",
+    selection: "#ffb74d",
+    focus: "#8ab4f8",
+    marker: "#ff8a80",
+    progress: "rgba(255, 255, 255, 0.3)",
+    brushFill: "rgba(138, 180, 248, 0.15)",
+    tooltipBackground: "rgba(245, 245, 245, 0.95)",
+    tooltipText: "#1e1f24",
+    tooltipShadow: "0 4px 12px rgba(0, 0, 0, 0.6)",
+  },
+};
+
+/**
+ * 将主题配置解析为完整的设计令牌
+ * @param theme - 内置主题名称或部分令牌
+ * @returns 完整的设计令牌，未指定的令牌取浅色主题的值
+ */
+export function resolveTheme(theme: Theme): ThemeTokens {
+  if (typeof theme === "string") {
+    return { ...(ThemeDefinitions[theme] ?? ThemeDefinitions.light) };
+  }
+  return { ...ThemeDefinitions.light, ...theme };
+}
+
+/**
+ * 生成设计令牌对应的 CSS 自定义属性
+ * @param tokens - 设计令牌
+ * @returns 属性名到取值的映射，例如 `{ "--d3-timeline-text": "#333" }`
+ */
+export function toThemeProperties(tokens: ThemeTokens): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const [key, value] of Object.entries(tokens)) {
+    const name = key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+    properties[`--d3-timeline-${name}`] = value;
+  }
+  return properties;
+}
+
+/**
+ * 根据背景色选择对比度更高的文字颜色
+ *
+ * @remarks
+ * 按 WCAG 相对亮度计算背景与两个候选颜色的对比度，返回对比度较高的一个。
+ * 背景色无法解析时返回浅色文字。
+ *
+ * @param background - 背景色（任意 CSS 颜色值）
+ * @param light - 浅色文字颜色
+ * @param dark - 深色文字颜色
+ * @returns 对比度更高的文字颜色
+ *
+ * @example
+ * ```typescript
+ * getContrastColor("#ffeb3b", "#fff", "#333"); // 返回 "#333"
+ * getContrastColor("#3f51b5", "#fff", "#333"); // 返回 "#fff"
+ * ```
+ */
+export function getContrastColor(
+  background: string,
+  light: string,
+  dark: string,
+): string {
+  const bg = getLuminance(background);
+  if (bg === undefined) return light;
+  const contrast = (color: string) => {
+    const l = getLuminance(color) ?? 0;
+    return (Math.max(bg, l) + 0.05) / (Math.min(bg, l) + 0.05);
+  };
+  return contrast(dark) > contrast(light) ? dark : light;
+}
+
+// WCAG 相对亮度
+function getLuminance(color: string): number | undefined {
+  const parsed = d3.color(color);
+  if (!parsed) return undefined;
+  const { r, g, b } = parsed.rgb();
+  const [lr, lg, lb] = [r, g, b].map((v) => {
+    const c = v / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
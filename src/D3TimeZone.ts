@@ -0,0 +1,104 @@
+// 按时区缓存格式化器，Intl.DateTimeFormat 的创建开销较大
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * 判断是否为有效的 IANA 时区名称
+ * @param timeZone - 时区名称，例如 'Asia/Shanghai'
+ * @returns 是否有效
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 获取指定时刻在时区中相对 UTC 的偏移量
+ *
+ * @remarks
+ * 偏移量随夏令时变化，因此必须针对具体时刻计算。
+ *
+ * @param date - 时刻
+ * @param timeZone - IANA 时区名称
+ * @returns 偏移量（毫秒），东八区为 8 * 60 * 60 * 1000
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(date)) {
+    if (type !== "literal") parts[type] = Number(value);
+  }
+  const wall = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  // formatToParts 不包含毫秒，比较时忽略毫秒部分
+  return wall - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * 将时刻转换为时区中的墙上时间
+ *
+ * @remarks
+ * 返回的 Date 的 UTC 字段（getUTCHours 等）即为该时区的本地时间，
+ * 可直接配合 d3 的 utc 时间间隔和 utcFormat 使用。
+ *
+ * @param date - 时刻
+ * @param timeZone - IANA 时区名称
+ * @returns 以 UTC 字段表示的墙上时间
+ *
+ * @example
+ * ```typescript
+ * const wall = toZonedTime(new Date("2024-01-01T00:00:00Z"), "Asia/Shanghai");
+ * wall.getUTCHours(); // 返回 8
+ * ```
+ */
+export function toZonedTime(date: Date, timeZone: string): Date {
+  return new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+}
+
+/**
+ * 将时区中的墙上时间转换回时刻，{@link toZonedTime} 的逆运算
+ *
+ * @remarks
+ * 夏令时切换时，重复的墙上时间取较早的时刻，不存在的墙上时间顺延到切换之后。
+ *
+ * @param wall - 以 UTC 字段表示的墙上时间
+ * @param timeZone - IANA 时区名称
+ * @returns 对应的时刻
+ */
+export function fromZonedTime(wall: Date, timeZone: string): Date {
+  const w = wall.getTime();
+  const day = 24 * 60 * 60 * 1000;
+  // 前后一天的偏移量覆盖了切换前后的两种情况
+  const before = w - getTimeZoneOffset(new Date(w - day), timeZone);
+  const after = w - getTimeZoneOffset(new Date(w + day), timeZone);
+  const valid = [before, after].filter(
+    (t) => w - t === getTimeZoneOffset(new Date(t), timeZone),
+  );
+  return new Date(valid.length > 0 ? Math.min(...valid) : before);
+}
@@ -1,9 +1,38 @@
 // D3Timeline.ts
 import * as d3 from "d3";
-import { generateID, clamp, debounce } from "./D3Utility";
+import {
+  generateID,
+  clamp,
+  debounce,
+  packIntervals,
+  mergeIntervals,
+} from "./D3Utility";
 import Logger from "./D3Logger";
 import JSONSerializer from "./D3Serializer";
-import { Locale, TimeLocaleDefinitions } from "./D3LocaleDefinitions";
+import HitIndex from "./D3HitIndex";
+import { isValidTimeZone, toZonedTime, fromZonedTime } from "./D3TimeZone";
+import {
+  Locale,
+  LocaleMessages,
+  TimeLocaleDefinitions,
+  MessageDefinitions,
+  formatMessage,
+  formatDuration,
+} from "./D3LocaleDefinitions";
+import {
+  Theme,
+  ThemeTokens,
+  resolveTheme,
+  toThemeProperties,
+  getContrastColor,
+} from "./D3ThemeDefinitions";
+import {
+  EventGeometry,
+  EventRenderer,
+  EventRenderContext,
+  EventSelection,
+  BuiltinEventRenderers,
+} from "./D3EventRenderers";
 
 /**
  * 时间轴配置选项接口
@@ -31,8 +60,12 @@ export interface TimelineOptions {
   timelineHeight?: number;
   /** 时间线之间的垂直间距（像素） */
   timelineSpacing?: number;
-  /** X轴高度（像素） */
+  /** 时间线的堆叠顺序：'asc' 按数据顺序从上到下排列，'desc' 最后添加的位于最上方，默认：desc */
+  timelineOrder?: "asc" | "desc";
+  /** X轴高度（像素），多层坐标轴时为每一层的高度，纵向模式下坐标轴位于左边距内，不占用绘图区 */
   axisHeight?: number;
+  /** 坐标轴配置：多层刻度、刻度格式和位置，默认：单层自动刻度，位于底部 */
+  axis?: AxisOptions;
   /** 最小缩放时间范围（毫秒），默认2周 */
   zoomMin?: number;
   /** 最大缩放时间范围（毫秒），默认1年 */
@@ -45,8 +78,38 @@ export interface TimelineOptions {
   stageLineParams?: StageLineParams;
   /** 语言：符合ISO639_1，比如：'zh', 'en'，默认：en */
   locale?: Locale;
+  /** 主题：'light'、'dark' 或基于浅色主题覆盖的部分设计令牌，默认：light */
+  theme?: Theme;
+  /** 工具提示配置，false 表示关闭内置工具提示（例如使用应用自己的弹出层），默认：{} */
+  tooltip?: TooltipOptions | false;
+  /** 是否显示当前时间标记线，并按间隔自动前进，默认：false */
+  nowMarker?: boolean | NowMarkerOptions;
+  /** 自定义事件渲染器，键为事件的 shape 名称，同名时覆盖内置渲染器，默认：{} */
+  renderers?: Record<string, EventRenderer>;
+  /** 时区：'local' 使用浏览器本地时区，'UTC' 或 IANA 时区名称（如 'America/New_York'），影响刻度、网格线和时间文字，默认：local */
+  timeZone?: string;
   /** 插件列表 */
   plugins?: D3TimelinePlugin[];
+  /** 是否开启编辑模式（拖拽移动、调整时长、切换时间线），默认：false */
+  editable?: boolean;
+  /** 是否将重叠的事件（包括图形和标题）自动分配到时间线内的不同子行，按布局时的缩放比例计算，默认：true */
+  eventPacking?: boolean;
+  /** 子行高度（像素），默认：36 */
+  rowHeight?: number;
+  /** 每条时间线的最大子行数，超出的事件会被折叠并显示溢出标记，0表示不限制，默认：0 */
+  maxRows?: number;
+  /** 点事件的聚合距离（像素），间距小于该值的点事件会合并为聚合标记，0表示不聚合，默认：0 */
+  clusterDistance?: number;
+  /** 渲染方式：'svg' 或 'canvas'，canvas 适用于大数据量（时间线、事件和阶段线绘制在画布上，坐标轴和标签仍使用SVG），默认：svg */
+  renderer?: "svg" | "canvas";
+  /** 方向：'horizontal' 时间从左到右、时间线按行排列，'vertical' 时间从上到下、时间线按列排列，默认：horizontal */
+  orientation?: "horizontal" | "vertical";
+  /** 撤销历史的最大步数，0表示不记录历史，默认：100 */
+  historyDepth?: number;
+  /** 是否只渲染可见时间范围内的事件（仅svg渲染模式），默认：false */
+  viewportCulling?: boolean;
+  /** 视口裁剪的缓冲区，为可见时间跨度的倍数，默认：0.5 */
+  cullingBuffer?: number;
 }
 
 /**
@@ -67,6 +130,86 @@ export interface StageLineParams {
   /** 是否显示动画 */
   animation: boolean;
 }
+
+/**
+ * 标记线：在所有时间线上标出某一时刻，例如发布日期或截止日期
+ * @interface MarkerData
+ */
+export interface MarkerData {
+  /** 标记ID */
+  id: ID;
+  /** 标记的时刻 */
+  time: Date;
+  /** 标签，显示在坐标轴区域 */
+  label?: string;
+  /** 颜色，默认使用主题的 marker 颜色 */
+  color?: string;
+  /** 是否为虚线 */
+  dash?: boolean;
+  /** 是否可以拖拽改变时刻 */
+  draggable?: boolean;
+}
+
+/**
+ * 当前时间标记配置
+ * @interface NowMarkerOptions
+ */
+export interface NowMarkerOptions {
+  /** 标签，默认使用当前语言的 "Now" / "现在" */
+  label?: string;
+  /** 颜色 */
+  color?: string;
+  /** 是否为虚线 */
+  dash?: boolean;
+  /** 更新间隔（毫秒），默认：60000 */
+  interval?: number;
+}
+
+/**
+ * 坐标轴的一层刻度
+ * @interface AxisTier
+ */
+export interface AxisTier {
+  /** 刻度间隔，例如 d3.timeYear，标签横跨整个间隔；未指定时按缩放级别自动选择刻度。非本地时区时请使用 d3.utcYear 等 UTC 间隔 */
+  interval?: d3.TimeInterval;
+  /** 刻度格式：d3 时间格式说明符（如 '%Y'）或格式化函数，默认使用多尺度格式 */
+  format?: string | ((date: Date) => string);
+}
+
+/**
+ * 坐标轴配置
+ * @interface AxisOptions
+ */
+export interface AxisOptions {
+  /** 刻度层（1到3层），按数组顺序自上而下排列（纵向模式下自左向右），默认：[{}] */
+  tiers?: AxisTier[];
+  /** 坐标轴位置：'top' 或 'bottom'，纵向模式下始终位于左侧，默认：bottom */
+  position?: "top" | "bottom";
+  /** 是否将当前可见区间的标签固定在左边缘（仅对指定了 interval 的层有效），默认：false */
+  stickyLabels?: boolean;
+}
+
+/**
+ * 工具提示的位置策略：'above' 元素上方，'below' 元素下方，'follow' 跟随鼠标，'pinned' 点击事件后固定显示
+ * @type TooltipPlacement
+ */
+export type TooltipPlacement = "above" | "below" | "follow" | "pinned";
+
+/**
+ * 工具提示配置
+ * @interface TooltipOptions
+ */
+export interface TooltipOptions {
+  /** 自定义内容渲染函数，返回HTML字符串或DOM节点 */
+  render?: (data: EventData, timeline?: TimelineData) => string | Node;
+  /** 挂载容器，例如弹窗内部或 shadow root，默认：document.body */
+  container?: HTMLElement | ShadowRoot;
+  /** 位置策略，空间不足时自动翻转，默认：above */
+  placement?: TooltipPlacement;
+  /** 鼠标悬停后延迟显示的时间（毫秒），默认：0 */
+  delay?: number;
+}
+
 /**
  * 暴露给插件的上下文对象
  * @interface D3TimelineContext
@@ -103,6 +246,153 @@ export interface TimelineData {
   name: string;
   /** 时间轴颜色（十六进制或CSS颜色值） */
   color: string;
+  /** 父时间轴ID，设置后该时间轴作为父时间轴分组的子时间轴显示 */
+  parentId?: ID;
+  /** 时间轴高度（像素，单行），事件尺寸随之缩放，默认使用 timelineHeight */
+  height?: number;
+  /** 时间轴背景色，默认使用渐变背景 */
+  background?: string;
+  /** 时间轴主线样式：'solid' 实线，'dashed' 虚线，'hidden' 不显示，默认：solid */
+  lineStyle?: "solid" | "dashed" | "hidden";
+  /** 标签文字颜色，默认：#333 */
+  labelColor?: string;
+}
+
+/**
+ * 时间线的子行布局
+ * @interface LaneLayout
+ */
+interface LaneLayout {
+  /** 子行数量 */
+  rows: number;
+  /** 时间线高度（像素） */
+  height: number;
+  /** 事件ID与所在子行的映射 */
+  eventRows: Map<ID, number>;
+  /** 超出最大子行数而被折叠的事件 */
+  overflow: Set<EventData>;
+  /** 分组折叠时，所有子孙时间线事件合并后的时间范围 */
+  rollup: TimeRange[];
+}
+
+/**
+ * 布局坐标系下的尺寸和边距
+ * @interface LayoutFrame
+ */
+interface LayoutFrame {
+  /** 沿时间方向的总长度 */
+  width: number;
+  /** 沿时间线排列方向的总长度 */
+  height: number;
+  margin: { top: number; right: number; bottom: number; left: number };
+}
+
+/**
+ * 点事件聚合
+ * @interface EventCluster
+ */
+interface EventCluster {
+  /** 聚合标识 */
+  id: string;
+  /** 所属时间轴ID */
+  timelineId: ID;
+  /** 聚合的事件 */
+  events: EventData[];
+  /** 聚合的时间范围 */
+  timeRange: TimeRange;
+}
+
+/**
+ * 展开后待渲染的一段时间区域
+ * @interface TimeRegionItem
+ */
+interface TimeRegionItem {
+  /** 数据绑定的键 */
+  key: string;
+  /** 所属时间区域 */
+  region: TimeRegion;
+  /** 展开后的时间段 */
+  range: TimeRange;
+  /** 纵向起点（布局坐标） */
+  y: number;
+  /** 高度 */
+  height: number;
+}
+
+/**
+ * 阶段线上的锚点
+ * @interface StagePoint
+ */
+interface StagePoint {
+  x: number;
+  y: number;
+  event: EventData;
+  width: number;
+}
+
+/**
+ * canvas 渲染模式下的命中区域
+ * @interface CanvasHit
+ */
+interface CanvasHit {
+  /** 命中的事件 */
+  data: EventData;
+  /** 事件在画布上的包围盒 [x0, y0, x1, y1] */
+  bounds: [number, number, number, number];
+}
+
+/**
+ * 阶段线
+ * @interface StageLine
+ */
+interface StageLine {
+  /** 阶段ID */
+  id: ID;
+  /** 按阶段序号排序的事件 */
+  events: EventData[];
+}
+
+/**
+ * 事件的可更新字段
+ * @type EventPatch
+ */
+export type EventPatch = Partial<Omit<EventData, "id" | "type">>;
+
+/**
+ * 时间线的可更新字段
+ * @type TimelinePatch
+ */
+export type TimelinePatch = Partial<Omit<TimelineData, "id">>;
+
+/**
+ * 添加时间线时的配置，未指定ID时自动生成，默认颜色：#667eea
+ * @type TimelineConfig
+ */
+export type TimelineConfig = Pick<TimelineData, "name"> &
+  Partial<Omit<TimelineData, "name">>;
+
+/**
+ * 数据快照
+ * @interface DataSnapshot
+ */
+interface DataSnapshot {
+  timelines: TimelineData[];
+  events: EventData[];
+  timeRegions: TimeRegion[];
+  markers: MarkerData[];
+}
+
+/**
+ * 历史记录条目，保存一次数据变化前后的快照
+ * @interface HistoryEntry
+ */
+interface HistoryEntry {
+  /** 引起变化的操作 */
+  action: DataChangeAction;
+  /** 变化前的快照 */
+  before: DataSnapshot;
+  /** 变化后的快照 */
+  after: DataSnapshot;
 }
 
 /**
@@ -122,6 +412,19 @@ export interface EventStage {
   index: number;
 }
 
+/**
+ * 事件状态
+ *
+ * - planned：计划中，以斜线图案显示
+ * - active：进行中
+ * - done：已完成
+ * - blocked：受阻，以交叉线图案显示
+ * - cancelled：已取消，以删除线显示
+ * @type EventStatus
+ */
+export type EventStatus =
+  "planned" | "active" | "done" | "blocked" | "cancelled";
+
 /**
  * 事件数据结构接口
  * @interface EventData
@@ -145,6 +448,28 @@ export interface EventData {
   type: "point" | "range";
   /** 事件阶段（可选） */
   stage?: EventStage;
+  /**
+   * 开始时间是否未知（可选），为 true 时事件向前延伸到视口左边缘并以渐隐效果显示，
+   * startTime 表示已知的最早时间（未指定时与 endTime 相同）
+   */
+  openStart?: boolean;
+  /**
+   * 是否为进行中的事件（可选），为 true 时事件延伸到当前时间并以箭头显示，随时间推移自动更新，
+   * endTime 表示已知的最晚时间（未指定时与 startTime 相同）
+   */
+  openEnd?: boolean;
+  /** 完成进度（可选），取值 0 到 1，范围事件内以进度条显示，编辑模式下可拖拽调整 */
+  progress?: number;
+  /** 事件状态（可选） */
+  status?: EventStatus;
+  /**
+   * 事件形状（可选），即通过 renderers 选项或 registerEventRenderer 注册的渲染器名称。
+   * 内置 'diamond'、'square'、'triangle' 和 'icon'，以事件开始时间为锚点绘制；
+   * 未指定或未注册时按事件类型绘制圆形或矩形
+   */
+  shape?: string;
+  /** 图标（可选），'icon' 形状显示的字符，例如 emoji 或图标字体 */
+  icon?: string;
 }
 
 /**
@@ -169,20 +494,141 @@ export interface ExportData {
   events: EventData[];
   /** 当前时间范围 */
   timeRange: TimeRange;
+  /** 时间区域 */
+  timeRegions?: TimeRegion[];
+  /** 标记线（不包括当前时间标记） */
+  markers?: MarkerData[];
+}
+/**
+ * 时间区域的重复规则
+ *
+ * - weekly：每周的指定几天，days 取值 0（周日）到 6（周六），例如周末为 [0, 6]
+ * - daily：每天的时间段，格式为 'HH:mm'，结束时间早于开始时间时跨越午夜，例如 18:00–08:00
+ *
+ * 重复规则按 timeZone 选项指定的时区计算
+ * @type TimeRegionRecurrence
+ */
+export type TimeRegionRecurrence =
+  | { type: "weekly"; days: number[] }
+  | { type: "daily"; from: string; to: string };
+
+/**
+ * 时间区域：在时间线背后着色的时间段，例如周末、夜间、节假日和冻结窗口
+ * @interface TimeRegion
+ */
+export interface TimeRegion {
+  /** 区域ID */
+  id: ID;
+  /** 开始时间，未指定重复规则时必填 */
+  start?: Date;
+  /** 结束时间，未指定重复规则时必填 */
+  end?: Date;
+  /** 重复规则，指定后忽略 start 和 end */
+  recurrence?: TimeRegionRecurrence;
+  /** 填充颜色 */
+  color: string;
+  /** 不透明度，默认：0.15 */
+  opacity?: number;
+  /** 标签 */
+  label?: string;
+  /** 只在指定的时间线上显示，未指定时覆盖所有时间线 */
+  timelineIds?: ID[];
 }
+
 /**
  * 支持的事件类型
  * @type EventType
  */
-export type EventType = "click" | "zoom" | "zoom.end";
+export type EventType =
+  | "click"
+  | "zoom"
+  | "zoom.end"
+  | "event.drag"
+  | "event.dragend"
+  | "event.change"
+  | "event.hover"
+  | "event.leave"
+  | "event.dblclick"
+  | "event.contextmenu"
+  | "cluster.click"
+  | "timeline.click"
+  | "stageline.click"
+  | "background.click"
+  | "data.change"
+  | "selection.change"
+  | "timeline.reorder"
+  | "timeline.toggle"
+  | "history.change"
+  | "marker.click"
+  | "marker.move";
+/**
+ * 指针交互事件的公共数据
+ * @interface PointerEventData
+ */
+export interface PointerEventData {
+  /** 原始DOM事件（键盘操作时为键盘事件） */
+  sourceEvent: MouseEvent | KeyboardEvent;
+  /** 指针所在位置对应的时间（基于当前缩放后的比例尺），键盘操作时为事件的开始时间 */
+  time: Date;
+}
+/**
+ * 引起数据变化的操作
+ * @type DataChangeAction
+ */
+export type DataChangeAction =
+  | "addTimeline"
+  | "addTimelines"
+  | "removeTimeline"
+  | "addEvent"
+  | "addEvents"
+  | "removeEvent"
+  | "updateEvent"
+  | "updateEvents"
+  | "updateTimeline"
+  | "moveTimeline"
+  | "addTimeRegion"
+  | "removeTimeRegion"
+  | "addMarker"
+  | "removeMarker"
+  | "updateMarker"
+  | "importData"
+  | "undo"
+  | "redo";
 /**
  * 事件类型和事件数据的映射
  * @type EventType
  */
 export type EventMap = {
-  click: { data: EventData };
+  click: { data: EventData } & PointerEventData;
   zoom: { scale: number; x: number; y: number; timeRange: TimeRange };
   "zoom.end": { scale: number; x: number; y: number; timeRange: TimeRange };
+  "event.drag": { oldData: EventData; newData: EventData };
+  "event.dragend": { oldData: EventData; newData: EventData };
+  "event.change": { oldData: EventData; newData: EventData };
+  "event.hover": { data: EventData } & PointerEventData;
+  "event.leave": { data: EventData } & PointerEventData;
+  "event.dblclick": { data: EventData } & PointerEventData;
+  "event.contextmenu": { data: EventData } & PointerEventData;
+  "cluster.click": { data: EventData[]; timeRange: TimeRange };
+  "timeline.click": { data: TimelineData } & PointerEventData;
+  "stageline.click": { stageId: ID; data: EventData[] } & PointerEventData;
+  "background.click": PointerEventData;
+  "data.change": {
+    action: DataChangeAction;
+    timelines: TimelineData[];
+    events: EventData[];
+  };
+  "selection.change": { data: EventData[] };
+  "timeline.toggle": { data: TimelineData; collapsed: boolean };
+  "timeline.reorder": {
+    data: TimelineData;
+    fromIndex: number;
+    toIndex: number;
+    timelines: TimelineData[];
+  };
+  "history.change": { canUndo: boolean; canRedo: boolean };
+  "marker.click": { data: MarkerData } & PointerEventData;
+  "marker.move": { data: MarkerData; oldTime: Date };
 };
 /**
  * 事件回调函数类型定义
@@ -195,29 +641,121 @@ export type EventHandler<T extends EventType> = (event: EventMap[T]) => void;
  * @class D3Timeline
  */
 export class D3Timeline {
+  /** 范围事件边缘拖拽手柄的宽度（像素） */
+  private static readonly HANDLE_WIDTH = 8;
+  // 以图案填充显示的事件状态
+  private static readonly STATUS_PATTERNS: EventStatus[] = [
+    "planned",
+    "blocked",
+    "cancelled",
+  ];
+  // 开始时间未知的事件渐隐部分占事件长度的比例
+  private static readonly FADE_RATIO = 0.15;
+  // 进行中事件的刷新间隔
+  private static readonly LIVE_UPDATE_INTERVAL = 60 * 1000;
+  // 添加时间线时从配置复制的可选字段
+  private static readonly TIMELINE_OPTIONAL_KEYS = [
+    "parentId",
+    "height",
+    "background",
+    "lineStyle",
+    "labelColor",
+  ] as const;
+  /** 子时间线标签每一层级的缩进（像素） */
+  private static readonly TREE_INDENT = 12;
+  /** 纵向模式下方向键与横向模式的对应关系 */
+  private static readonly VERTICAL_ARROW_KEYS: Record<string, string> = {
+    ArrowUp: "ArrowLeft",
+    ArrowDown: "ArrowRight",
+    ArrowLeft: "ArrowUp",
+    ArrowRight: "ArrowDown",
+  };
   private logger: Logger = new Logger("D3Timeline");
   private container: d3.Selection<HTMLElement, unknown, null, undefined>;
   private options: Required<TimelineOptions>;
   private timelines: TimelineData[] = [];
   private events: EventData[] = [];
+  private timeRegions: TimeRegion[] = [];
+  private markers: MarkerData[] = [];
+  // 当前时间标记及其更新定时器
+  private nowMarker?: MarkerData;
+  private nowMarkerTimer?: number;
+  // 当前布局中为标记线标签保留的高度
+  private markerBandHeight = 0;
+  private liveUpdateTimer?: number;
+  // 测量事件标题宽度的 canvas 上下文
+  private textMeasureContext?: CanvasRenderingContext2D | null;
+  // 本实例的事件渲染器及其版本，替换渲染器后版本变化，使事件元素重新创建
+  private eventRenderers = new Map<string, EventRenderer>();
+  private eventRendererVersions = new Map<string, number>();
   private timeRange!: TimeRange;
-  private eventBindings: {
-    [T in EventType]: Set<Function>;
-  } = {
-    click: new Set(),
-    zoom: new Set(),
-    "zoom.end": new Set(),
-  };
+  private eventBindings = new Map<EventType, Set<Function>>();
+  /** 各事件类型下 once 绑定的原始处理器与包装处理器的映射，用于 off 解绑 */
+  private onceHandlers = new Map<EventType, WeakMap<Function, Function>>();
   private boundResize = debounce(this.resize.bind(this), 300);
 
   // D3 元素
   private svg!: d3.Selection<SVGSVGElement, unknown, null, undefined>;
   private mainGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
   private gridGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
+  private regionGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
   private timelineGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
   private stageLineGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
   private stageLinesVisible: boolean = true;
   private eventGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
+  private laneLayouts = new Map<ID, LaneLayout>();
+  private clusterGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
+  private markerGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
+  private markerLabelGroup!: d3.Selection<
+    SVGGElement,
+    unknown,
+    null,
+    undefined
+  >;
+  private clusteredEventIds = new Set<ID>();
+  private canvasLayer?: d3.Selection<
+    SVGForeignObjectElement,
+    unknown,
+    null,
+    undefined
+  >;
+  private canvas?: d3.Selection<HTMLCanvasElement, unknown, null, undefined>;
+  private hitIndex = new HitIndex<CanvasHit>();
+  private canvasStagePaths: (StageLine & { path: Path2D })[] = [];
+  /** 键盘焦点所在的事件ID */
+  private focusedEventId?: ID;
+  // 当前主题的设计令牌（canvas 绘制和文字对比色计算使用）
+  private themeTokens!: ThemeTokens;
+  private liveRegion!: d3.Selection<HTMLDivElement, unknown, null, undefined>;
+  private eventDetails!: d3.Selection<HTMLDivElement, unknown, null, undefined>;
+  private selectedEventIds = new Set<ID>();
+  /** 已折叠的分组时间线ID */
+  private collapsedTimelineIds = new Set<ID>();
+  /** 当前显示的时间线（按从上到下的顺序，不含被折叠的子时间线） */
+  private visibleTimelines: TimelineData[] = [];
+  /** 时间线ID与实际显示所在时间线的映射（被折叠的子时间线映射到其分组） */
+  private displayTimelines = new Map<ID, TimelineData>();
+  private laneOffsets = new Map<ID, number>();
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  /** 最近一次记录的数据快照，作为下一次变化的“变化前”状态 */
+  private currentSnapshot: DataSnapshot = {
+    timelines: [],
+    events: [],
+    timeRegions: [],
+    markers: [],
+  };
+  private brushGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
+  private brush!: d3.DragBehavior<SVGSVGElement, unknown, unknown>;
+  private brushState?: {
+    /** 起点坐标 */
+    origin: [number, number];
+    /** 是否在已有选择的基础上追加 */
+    additive: boolean;
+  };
+  private hoveredHit?: CanvasHit;
+  /** 视口裁剪时已渲染事件覆盖的时间窗口 */
+  private renderedWindow?: TimeRange;
   private axisGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
   private labelGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
 
@@ -227,7 +765,40 @@ export class D3Timeline {
 
   // D3 行为
   private zoom!: d3.ZoomBehavior<SVGSVGElement, unknown>;
-  private tooltip!: d3.Selection<HTMLDivElement, unknown, HTMLElement, any>;
+  private drag!: d3.DragBehavior<SVGGElement, EventData, EventData>;
+  private labelDrag!: d3.DragBehavior<
+    SVGTextElement,
+    TimelineData,
+    TimelineData
+  >;
+  private markerDrag!: d3.DragBehavior<SVGGElement, MarkerData, MarkerData>;
+  /** 正在拖拽的标记线拖拽前的时刻 */
+  private markerDragOrigin?: Date;
+  /** 正在拖拽排序的时间线及其目标位置（同一分组内的视觉顺序） */
+  private labelDragState?: { timeline: TimelineData; toIndex: number };
+  private dragState?: {
+    /** 拖拽模式：整体移动、调整开始/结束边缘或调整进度 */
+    mode: "move" | "start" | "end" | "progress";
+    /** 拖拽前的事件数据 */
+    origin: EventData;
+    /** 拖拽中的事件数据 */
+    draft: EventData;
+    /** 按下时指针所在的时间（毫秒） */
+    pointerTime: number;
+  };
+  private tooltip?: d3.Selection<HTMLDivElement, unknown, null, undefined>;
+  // 延迟显示工具提示的定时器
+  private tooltipTimer?: number;
+  // 固定显示工具提示的事件
+  private pinnedTooltipEventId?: ID;
+  // 工具提示的锚点区域（视口坐标）
+  private tooltipAnchor?: DOMRect;
+  // 当前显示在工具提示中的事件
+  private tooltipData?: EventData;
+  // 实例的时间格式语言
+  private timeLocale!: d3.TimeLocaleObject;
+  // 坐标轴刻度格式
+  private tickFormat!: (date: Date) => string;
   private lastTransform?: d3.ZoomTransform;
 
   // 默认配置
@@ -238,7 +809,9 @@ export class D3Timeline {
     margin: { top: 20, right: 20, bottom: 20, left: 120 },
     timelineHeight: 60,
     timelineSpacing: 20,
+    timelineOrder: "desc",
     axisHeight: 20,
+    axis: {},
     zoomMin: 8 * 24 * 60 * 60 * 1000, // 2周
     zoomMax: 365 * 24 * 60 * 60 * 1000, // 1年
     maxTimeRange: this.getDefaultMaxTimeRange(),
@@ -252,7 +825,22 @@ export class D3Timeline {
       animation: false,
     },
     locale: "en",
+    theme: "light",
+    tooltip: {},
+    timeZone: "local",
+    nowMarker: false,
+    renderers: {},
     plugins: [],
+    editable: false,
+    eventPacking: true,
+    rowHeight: 36,
+    maxRows: 0,
+    clusterDistance: 0,
+    renderer: "svg",
+    orientation: "horizontal",
+    historyDepth: 100,
+    viewportCulling: false,
+    cullingBuffer: 0.5,
   };
 
   /**
@@ -264,6 +852,10 @@ export class D3Timeline {
   constructor(container: HTMLElement, options: TimelineOptions = {}) {
     this.container = d3.select(container);
     this.options = { ...this.defaultOptions, ...options };
+    // 纵向模式下标签位于顶部、坐标轴刻度位于左侧，默认边距随之调整
+    if (this.isVertical() && !options.margin) {
+      this.options.margin = { top: 40, right: 20, bottom: 20, left: 80 };
+    }
 
     // 如果容器有尺寸，使用容器尺寸
     if (this.options.width <= 0 && container.clientWidth > 0) {
@@ -273,10 +865,14 @@ export class D3Timeline {
       this.options.height = container.clientHeight;
     }
 
-    // 检查width和height是否合法
-    if (this.options.width <= 0) {
+    // 检查width和height是否合法（纵向模式下高度由外部决定，宽度根据时间线计算）
+    if (this.isVertical() && this.options.height <= 0) {
+      throw Error("D3Timeline err: height is zero.");
+    }
+    if (!this.isVertical() && this.options.width <= 0) {
       throw Error("D3Timeline err: width is zero.");
     }
+    this.checkTimeZone(this.options.timeZone);
 
     this.init();
   }
@@ -286,14 +882,38 @@ export class D3Timeline {
   get isStageLineVisible() {
     return this.stageLinesVisible;
   }
+  /**
+   * 是否处于编辑模式
+   */
+  get isEditable() {
+    return this.options.editable;
+  }
+  /**
+   * 是否可以撤销
+   */
+  get canUndo() {
+    return this.undoStack.length > 0;
+  }
+  /**
+   * 是否可以重做
+   */
+  get canRedo() {
+    return this.redoStack.length > 0;
+  }
 
   private init(): void {
     this.setupLocales();
+    this.setupTheme();
+    this.setupEventRenderers();
     this.setupSVG();
     this.setupScales();
     this.setupGroups();
     this.setupZoom();
+    this.setupDrag();
     this.setupTooltip();
+    this.setupLiveRegion();
+    this.setupNowMarker();
+    this.setupLiveUpdate();
     this.setupEventListeners();
     this.setupPlugins();
     this.render();
@@ -306,13 +926,162 @@ export class D3Timeline {
     return { start, end };
   }
 
+  private setupEventRenderers(): void {
+    this.eventRenderers = new Map(
+      Object.entries({ ...BuiltinEventRenderers, ...this.options.renderers }),
+    );
+  }
+
+  // 每个实例使用独立的时间格式，不修改 d3 的全局默认语言
   private setupLocales() {
-    d3.timeFormatDefaultLocale(TimeLocaleDefinitions[this.options.locale]);
+    let definition = TimeLocaleDefinitions[this.options.locale];
+    if (!definition) {
+      this.logger.warn(
+        `Unknown locale "${this.options.locale}", fallback to en.`,
+      );
+      definition = TimeLocaleDefinitions.en;
+    }
+    this.timeLocale = d3.timeFormatLocale(definition);
+    this.setupTickFormat();
+  }
+
+  // 与 d3 默认的多尺度刻度格式一致，只是使用实例的语言和时区
+  private setupTickFormat() {
+    const local = this.options.timeZone === "local";
+    const f = local ? this.timeLocale.format : this.timeLocale.utcFormat;
+    // 非本地时区时，在以 UTC 字段表示的墙上时间上判断边界和格式化
+    const [second, minute, hour, day, week, month, year] = local
+      ? [
+          d3.timeSecond,
+          d3.timeMinute,
+          d3.timeHour,
+          d3.timeDay,
+          d3.timeWeek,
+          d3.timeMonth,
+          d3.timeYear,
+        ]
+      : [
+          d3.utcSecond,
+          d3.utcMinute,
+          d3.utcHour,
+          d3.utcDay,
+          d3.utcWeek,
+          d3.utcMonth,
+          d3.utcYear,
+        ];
+    const formats = {
+      millisecond: f(".%L"),
+      second: f(":%S"),
+      minute: f("%I:%M"),
+      hour: f("%I %p"),
+      day: f("%a %d"),
+      week: f("%b %d"),
+      month: f("%B"),
+      year: f("%Y"),
+    };
+    this.tickFormat = (instant: Date) => {
+      const date = this.toWallTime(instant);
+      return (
+        second(date) < date
+          ? formats.millisecond
+          : minute(date) < date
+            ? formats.second
+            : hour(date) < date
+              ? formats.minute
+              : day(date) < date
+                ? formats.hour
+                : month(date) < date
+                  ? week(date) < date
+                    ? formats.day
+                    : formats.week
+                  : year(date) < date
+                    ? formats.month
+                    : formats.year
+      )(date);
+    };
+  }
+
+  private checkTimeZone(timeZone: string) {
+    if (timeZone !== "local" && !isValidTimeZone(timeZone)) {
+      throw Error("The timeZone is invalid.");
+    }
+  }
+
+  // 是否需要在墙上时间中计算刻度（UTC 由 d3.scaleUtc 直接处理）
+  private isZonedTime(): boolean {
+    const { timeZone } = this.options;
+    return timeZone !== "local" && timeZone !== "UTC";
+  }
+
+  /**
+   * 将时刻转换为配置时区中以 UTC 字段表示的墙上时间，本地时区和 UTC 时原样返回
+   * @param date - 时刻
+   */
+  private toWallTime(date: Date): Date {
+    return this.isZonedTime() ? toZonedTime(date, this.options.timeZone) : date;
+  }
+
+  /**
+   * 创建使用实例语言和时区的时间格式化函数
+   * @param specifier - d3 时间格式说明符，例如 "%c"
+   */
+  private formatTime(specifier: string): (date: Date) => string {
+    if (this.options.timeZone === "local") {
+      return this.timeLocale.format(specifier);
+    }
+    const format = this.timeLocale.utcFormat(specifier);
+    return (date: Date) => format(this.toWallTime(date));
+  }
+
+  /**
+   * 生成刻度，非 UTC 的时区在墙上时间中取整，保证日、月边界落在该时区的零点（包括夏令时切换日）
+   * @param xScale - 比例尺
+   * @param count - 期望的刻度数量
+   */
+  private getTicks(
+    xScale: d3.ScaleTime<number, number>,
+    count: number,
+  ): Date[] {
+    if (!this.isZonedTime()) return xScale.ticks(count);
+    const timeZone = this.options.timeZone;
+    const [start, end] = xScale.domain();
+    return d3
+      .scaleUtc()
+      .domain([toZonedTime(start, timeZone), toZonedTime(end, timeZone)])
+      .ticks(count)
+      .map((wall) => fromZonedTime(wall, timeZone))
+      .filter((date) => date >= start && date <= end);
+  }
+
+  private setupTheme() {
+    this.themeTokens = resolveTheme(this.options.theme);
+    this.applyThemeProperties(this.container);
+  }
+
+  // 将设计令牌写入为 CSS 自定义属性，样式表和内联样式通过 var() 引用
+  private applyThemeProperties(
+    selection: d3.Selection<any, unknown, any, any>,
+    remove = false,
+  ) {
+    const properties = toThemeProperties(this.themeTokens);
+    for (const [name, value] of Object.entries(properties)) {
+      if (remove) {
+        selection.style(name, null);
+      } else {
+        selection.style(name, value);
+      }
+    }
   }
 
   private setupSVG(): void {
     this.svg = this.container
       .append("svg")
+      .attr("role", "group")
+      .attr("aria-label", this.getMessages().chartLabel)
+      .style("background", "var(--d3-timeline-background)")
+      // canvas 模式下由 svg 自身接收键盘焦点
+      .attr("tabindex", this.isCanvasRenderer() ? 0 : null)
+      .classed("d3-editable", this.options.editable)
       .attr("viewBox", [0, 0, this.options.width, this.options.height])
       .attr("width", this.options.width)
       .attr("height", this.options.height);
@@ -327,9 +1096,8 @@ export class D3Timeline {
       .append("rect")
       .attr("id", `main-clip-rect-${this.options.id}`) // 添加ID方便resize时更新
       .attr("x", this.options.margin.left)
-      .attr("y", this.options.margin.top)
-      .attr("width", this.getTimelineInnerWidth())
-      .attr("height", clamp(this.getTimelineInnerHeight(), 0, Infinity));
+      .attr("y", this.options.margin.top);
+    this.updateClipRect();
 
     // 时间线渐变
     const gradient = defs
@@ -340,12 +1108,15 @@ export class D3Timeline {
       .attr("x2", "100%")
       .attr("y2", "0%");
 
-    gradient.append("stop").attr("offset", "0%").attr("stop-color", "#667eea");
+    gradient
+      .append("stop")
+      .attr("offset", "0%")
+      .style("stop-color", "var(--d3-timeline-lane-gradient-start)");
 
     gradient
       .append("stop")
       .attr("offset", "100%")
-      .attr("stop-color", "#764ba2");
+      .style("stop-color", "var(--d3-timeline-lane-gradient-end)");
 
     // 阴影滤镜
     const filter = defs
@@ -369,20 +1140,253 @@ export class D3Timeline {
     const feMerge = filter.append("feMerge");
     feMerge.append("feMergeNode").attr("in", "offsetBlur");
     feMerge.append("feMergeNode").attr("in", "SourceGraphic");
+
+    // 开始时间未知的事件左端渐隐（遮罩区域包含阴影）
+    const fade = defs
+      .append("linearGradient")
+      .attr("id", `fade-start-gradient-${this.options.id}`)
+      .attr("x1", "0%")
+      .attr("x2", "100%");
+    fade
+      .append("stop")
+      .attr("offset", "0%")
+      .attr("stop-color", "white")
+      .attr("stop-opacity", 0);
+    fade
+      .append("stop")
+      .attr("offset", `${D3Timeline.FADE_RATIO * 100}%`)
+      .attr("stop-color", "white");
+    defs
+      .append("mask")
+      .attr("id", `fade-start-${this.options.id}`)
+      .attr("maskContentUnits", "objectBoundingBox")
+      .attr("y", "-50%")
+      .attr("height", "200%")
+      .append("rect")
+      .attr("y", -0.5)
+      .attr("width", 1)
+      .attr("height", 2)
+      .attr("fill", `url(#fade-start-gradient-${this.options.id})`);
+
+    // 事件状态的图案：计划中为斜线，受阻为交叉线，已取消为删除线
+    const hatch = (status: EventStatus, cross: boolean) => {
+      const pattern = defs
+        .append("pattern")
+        .attr("id", `status-${status}-${this.options.id}`)
+        .attr("patternUnits", "userSpaceOnUse")
+        .attr("width", 6)
+        .attr("height", 6)
+        .attr("patternTransform", "rotate(45)");
+      // 线条位于图块中间，避免在图块边缘被截断
+      const lines = cross
+        ? [
+            [3, 0, 3, 6],
+            [0, 3, 6, 3],
+          ]
+        : [[3, 0, 3, 6]];
+      lines.forEach(([x1, y1, x2, y2]) => {
+        pattern
+          .append("line")
+          .attr("x1", x1)
+          .attr("y1", y1)
+          .attr("x2", x2)
+          .attr("y2", y2)
+          .attr("stroke-width", 2)
+          .attr("stroke-opacity", 0.6)
+          .style("stroke", "var(--d3-timeline-event-stroke)");
+      });
+    };
+    hatch("planned", false);
+    hatch("blocked", true);
+    defs
+      .append("pattern")
+      .attr("id", `status-cancelled-${this.options.id}`)
+      .attr("patternUnits", "objectBoundingBox")
+      .attr("patternContentUnits", "objectBoundingBox")
+      .attr("width", 1)
+      .attr("height", 1)
+      .append("rect")
+      .attr("y", 0.46)
+      .attr("width", 1)
+      .attr("height", 0.08)
+      .style("fill", "var(--d3-timeline-event-stroke)");
   }
 
   private setupScales(): void {
-    this.xScale = d3
-      .scaleTime()
+    const { width, margin } = this.getLayoutFrame();
+    // UTC 直接使用 d3.scaleUtc，其他时区由 getTicks 计算刻度
+    this.xScale = (
+      this.options.timeZone === "UTC" ? d3.scaleUtc() : d3.scaleTime()
+    )
       .domain([this.options.maxTimeRange.start, this.options.maxTimeRange.end])
-      .range([
-        this.options.margin.left,
-        this.options.width - this.options.margin.right,
-      ]);
+      .range([margin.left, width - margin.right]);
+
+    this.xAxis = this.createAxis(this.xScale);
+  }
+
+  private isVertical(): boolean {
+    return this.options.orientation === "vertical";
+  }
+
+  /**
+   * 获取布局坐标系下的尺寸和边距
+   *
+   * 布局坐标系中时间沿横轴、时间线沿纵轴排列，比例尺和所有布局计算都基于该坐标系。
+   * 纵向模式下布局坐标与屏幕坐标互换，内容组通过交换矩阵映射到屏幕。
+   */
+  private getLayoutFrame(): LayoutFrame {
+    const { width, height, margin } = this.options;
+    if (!this.isVertical()) return { width, height, margin };
+    return {
+      width: height,
+      height: width,
+      margin: {
+        top: margin.left,
+        right: margin.bottom,
+        bottom: margin.right,
+        left: margin.top,
+      },
+    };
+  }
+
+  // 内容组的变换：纵向模式下交换横纵坐标
+  private getContentTransform(): string | null {
+    return this.isVertical() ? "matrix(0, 1, 1, 0, 0, 0)" : null;
+  }
+
+  // 内容组中的文字位置属性，纵向模式下与文字的反向变换配合，保持文字正向显示
+  private textAttr(attr: "x" | "y"): "x" | "y" {
+    if (!this.isVertical()) return attr;
+    return attr === "x" ? "y" : "x";
+  }
+
+  // 布局坐标的矩形边界转换为屏幕坐标
+  private toScreenBounds(
+    bounds: [number, number, number, number],
+  ): [number, number, number, number] {
+    const [x0, y0, x1, y1] = bounds;
+    return this.isVertical() ? [y0, x0, y1, x1] : bounds;
+  }
+
+  // 缩放行为中表示布局横坐标 u 的点
+  private toZoomPoint(u: number): [number, number] {
+    return this.isVertical() ? [0, u] : [u, 0];
+  }
+
+  private createAxis(xScale: d3.ScaleTime<number, number>): d3.Axis<Date> {
+    const axis = this.isVertical()
+      ? d3.axisLeft<Date>(xScale)
+      : this.isAxisOnTop()
+        ? d3.axisTop<Date>(xScale)
+        : d3.axisBottom<Date>(xScale);
+    const count = this.getLayoutFrame().width / 80;
+    axis.ticks(count).tickFormat(this.tickFormat);
+    if (this.isZonedTime()) {
+      axis.tickValues(this.getTicks(xScale, count));
+    }
+    return axis;
+  }
+
+  // 坐标轴位置：横向模式位于绘图区底部或顶部，纵向模式位于绘图区左侧
+  private getAxisTransform(): string {
+    const { height, margin } = this.getLayoutFrame();
+    if (this.isVertical()) return `translate(${this.options.margin.left}, 0)`;
+    // 底部坐标轴让出与时间线相邻的标记线标签区域
+    const bottom =
+      height - margin.bottom - this.getAxisBandHeight() + this.markerBandHeight;
+    return this.isAxisOnTop()
+      ? `translate(0, ${margin.top})`
+      : `translate(0, ${bottom})`;
+  }
+
+  private getAxisTiers(): AxisTier[] {
+    const tiers = this.options.axis.tiers ?? [];
+    return tiers.length > 0 ? tiers.slice(0, 3) : [{}];
+  }
+
+  private isAxisOnTop(): boolean {
+    return !this.isVertical() && this.options.axis.position === "top";
+  }
+
+  /**
+   * 绘图区内为坐标轴保留的高度，包括与时间线相邻的标记线标签区域
+   * 纵向模式的坐标轴位于左边距内，只保留标记线标签区域
+   */
+  private getAxisBandHeight(): number {
+    const tiers = this.isVertical()
+      ? 0
+      : this.options.axisHeight * this.getAxisTiers().length;
+    return tiers + this.markerBandHeight;
+  }
+
+  // 标记线标签区域的高度，没有带标签的标记线时不保留
+  private getMarkerBandHeight(): number {
+    const labelled = !!this.nowMarker || this.markers.some((m) => m.label);
+    return labelled ? this.options.axisHeight : 0;
+  }
+
+  // 第一条时间线的起始位置，坐标轴位于顶部或左侧时让出坐标轴区域
+  private getLanesTop(): number {
+    const { margin } = this.getLayoutFrame();
+    const axisBefore = this.isAxisOnTop() || this.isVertical();
+    return margin.top + (axisBefore ? this.getAxisBandHeight() : 0);
+  }
+
+  private updateClipRect(): void {
+    this.svg
+      .select(`#main-clip-rect-${this.options.id}`)
+      .attr(
+        "width",
+        clamp(
+          this.options.width -
+            this.options.margin.left -
+            this.options.margin.right,
+          0,
+          Infinity,
+        ),
+      )
+      .attr(
+        "height",
+        clamp(
+          this.options.height -
+            this.options.margin.top -
+            this.options.margin.bottom,
+          0,
+          Infinity,
+        ),
+      );
+  }
+
+  private updateZoomExtent(): void {
+    const { width, height, margin } = this.options;
+    if (this.isVertical()) {
+      this.zoom
+        .extent([
+          [0, margin.top],
+          [width, height - margin.bottom],
+        ])
+        .translateExtent([
+          [-Infinity, margin.top],
+          [Infinity, height - margin.bottom],
+        ]);
+    } else {
+      this.zoom
+        .extent([
+          [margin.left, 0],
+          [width - margin.right, height],
+        ])
+        .translateExtent([
+          [margin.left, -Infinity],
+          [width - margin.right, Infinity],
+        ]);
+    }
+  }
 
-    this.xAxis = d3
-      .axisBottom<Date>(this.xScale)
-      .ticks(this.options.width / 80);
+  // 应用缩放变换后的比例尺
+  private rescale(transform: d3.ZoomTransform): d3.ScaleTime<number, number> {
+    return this.isVertical()
+      ? transform.rescaleY(this.xScale)
+      : transform.rescaleX(this.xScale);
   }
 
   private setupGroups(): void {
@@ -395,47 +1399,129 @@ export class D3Timeline {
     const clipGroup = this.mainGroup
       .append("g")
       .attr("clip-path", `url(#main-clip-${this.options.id})`);
-    this.gridGroup = clipGroup.append("g").attr("class", "d3-grid");
-    this.timelineGroup = clipGroup.append("g").attr("class", "timelines");
-    this.stageLineGroup = clipGroup.append("g").attr("class", "stage-lines");
-    this.eventGroup = clipGroup.append("g").attr("class", "events");
-    this.axisGroup = clipGroup
+    // 内容组使用布局坐标系，纵向模式下通过变换映射到屏幕
+    const contentGroup = clipGroup
+      .append("g")
+      .attr("class", "d3-content")
+      .attr("transform", this.getContentTransform());
+    this.gridGroup = contentGroup.append("g").attr("class", "d3-grid");
+    this.regionGroup = contentGroup
+      .append("g")
+      .attr("class", "d3-time-regions");
+    if (this.isCanvasRenderer()) {
+      // 画布位于网格之上，通过 foreignObject 嵌入以复用裁剪区域和坐标系
+      this.canvasLayer = contentGroup
+        .append("foreignObject")
+        .attr("class", "d3-canvas-layer")
+        .attr("x", 0)
+        .attr("y", 0);
+      this.canvas = this.canvasLayer
+        .append<HTMLCanvasElement>("xhtml:canvas")
+        .attr("class", "d3-canvas");
+      this.resizeCanvas();
+      if (this.options.editable) {
+        this.logger.warn("Editing is not supported by the canvas renderer.");
+      }
+    }
+    this.timelineGroup = contentGroup.append("g").attr("class", "timelines");
+    this.stageLineGroup = contentGroup.append("g").attr("class", "stage-lines");
+    this.eventGroup = contentGroup.append("g").attr("class", "events");
+    this.clusterGroup = contentGroup.append("g").attr("class", "d3-clusters");
+    this.markerGroup = contentGroup.append("g").attr("class", "d3-markers");
+    this.brushGroup = contentGroup.append("g").attr("class", "d3-brush");
+    // 坐标轴不放在裁剪组中，避免边缘的刻度标签被截断
+    this.axisGroup = this.mainGroup
       .append("g")
       .attr("class", "d3-axis")
-      .attr(
-        "transform",
-        `translate(0, ${this.options.height - this.options.margin.bottom - this.options.axisHeight})`,
-      );
+      .attr("transform", this.getAxisTransform());
+    // 标记线的标签位于坐标轴区域
+    this.markerLabelGroup = this.mainGroup
+      .append("g")
+      .attr("class", "d3-marker-labels")
+      .attr("transform", this.getContentTransform());
+  }
+
+  private setupNowMarker(): void {
+    const option = this.options.nowMarker;
+    if (!option) return;
+    const config = option === true ? {} : option;
+    this.nowMarker = {
+      id: "now",
+      time: new Date(),
+      label: config.label,
+      color: config.color,
+      dash: config.dash,
+    };
+    this.nowMarkerTimer = window.setInterval(() => {
+      this.nowMarker!.time = new Date();
+      this.renderMarkers(this.getCurrentXScale());
+    }, config.interval ?? 60000);
+  }
+
+  // 进行中的事件随当前时间延伸，定时刷新位置
+  private setupLiveUpdate(): void {
+    this.liveUpdateTimer = window.setInterval(() => {
+      // 拖拽过程中不刷新，避免重置被拖拽事件的位置
+      if (this.dragState) return;
+      if (this.events.some((e) => e.openEnd)) this.render();
+    }, D3Timeline.LIVE_UPDATE_INTERVAL);
+  }
+
+  private isCanvasRenderer(): boolean {
+    return this.options.renderer === "canvas";
   }
 
   private isPointInClipArea(event: MouseEvent): boolean {
-    // 获取相对于 clipGroup 的本地坐标
+    // 获取相对于内容组的布局坐标
     const point = d3.pointer(event, this.timelineGroup.node());
     const [x, y] = point;
 
+    const { margin } = this.getLayoutFrame();
     const width = this.getTimelineInnerWidth();
     const height = this.getTimelineInnerHeight();
 
     return (
-      x >= this.options.margin.left &&
-      x <= width + this.options.margin.left &&
-      y >= this.options.margin.top &&
-      y <= height + this.options.margin.top
+      x >= margin.left &&
+      x <= width + margin.left &&
+      y >= margin.top &&
+      y <= height + margin.top
     );
   }
 
+  private zoomFilter(event: MouseEvent): boolean {
+    // 编辑模式下，事件上的指针操作交给拖拽行为处理
+    if (
+      this.options.editable &&
+      event.type !== "wheel" &&
+      (event.target as Element).closest?.(".event")
+    ) {
+      return false;
+    }
+    // Alt 拖拽用于框选
+    if (event.altKey && event.type !== "wheel") {
+      return false;
+    }
+    // 双击事件时触发 event.dblclick，不进行缩放
+    if (event.type === "dblclick" && this.findEventByPointer(event)) {
+      return false;
+    }
+    return this.isPointInClipArea(event);
+  }
+
+  // 绘图区沿时间方向的长度
   private getTimelineInnerWidth(): number {
-    return (
-      this.options.width - this.options.margin.left - this.options.margin.right
-    );
+    const { width, margin } = this.getLayoutFrame();
+    return width - margin.left - margin.right;
   }
 
+  // 绘图区沿时间线排列方向的长度
   private getTimelineInnerHeight(excludeAxis = false): number {
+    const { height, margin } = this.getLayoutFrame();
     return (
-      this.options.height -
-      this.options.margin.top -
-      this.options.margin.bottom -
-      (excludeAxis ? this.options.axisHeight : 0)
+      height -
+      margin.top -
+      margin.bottom -
+      (excludeAxis ? this.getAxisBandHeight() : 0)
     );
   }
 
@@ -448,34 +1534,144 @@ export class D3Timeline {
 
     this.zoom = d3
       .zoom<SVGSVGElement, unknown>()
-      .filter(this.isPointInClipArea.bind(this))
-      .scaleExtent([Math.max(1, minScale), Math.max(1, maxScale)]) // 限制最小/最大
-      .extent([
-        [this.options.margin.left, 0],
-        [this.options.width - this.options.margin.right, this.options.height],
-      ])
-      .translateExtent([
-        [this.options.margin.left, -Infinity],
-        [this.options.width - this.options.margin.right, Infinity],
-      ]);
+      .filter(this.zoomFilter.bind(this))
+      .scaleExtent([Math.max(1, minScale), Math.max(1, maxScale)]); // 限制最小/最大
+    this.updateZoomExtent();
   }
 
-  private setupTooltip(): void {
-    this.tooltip = d3
-      .select("body")
-      .append("div")
-      .attr("class", "d3-timeline-tooltip")
-      .style("position", "fixed")
-      .style("background", "rgba(0, 0, 0, 0.9)")
-      .style("color", "white")
-      .style("padding", "12px")
-      .style("border-radius", "8px")
-      .style("font-size", "12px")
-      .style("pointer-events", "none")
-      .style("opacity", 0)
-      .style("z-index", "1000")
-      .style("max-width", "250px")
-      .style("box-shadow", "0 4px 12px rgba(0,0,0,0.3)");
+  /**
+   * 只在编辑模式下绑定拖拽行为
+   *
+   * @remarks
+   * d3-drag 会在元素上设置 `touch-action: none`，只读模式下需要解除绑定，
+   * 否则在事件和标签上无法通过触摸平移和缩放。
+   */
+  private applyDrag<E extends Element, D>(
+    selection: d3.Selection<E, D, any, any>,
+    drag: d3.DragBehavior<E, D, D>,
+  ): void {
+    if (this.options.editable) {
+      selection.call(drag);
+    } else {
+      selection
+        .on(".drag", null)
+        .style("touch-action", null)
+        .style("-webkit-tap-highlight-color", null);
+    }
+  }
+
+  private setupDrag(): void {
+    this.drag = d3
+      .drag<SVGGElement, EventData, EventData>()
+      .filter(
+        (event: MouseEvent) =>
+          this.options.editable && !event.button && !event.altKey,
+      )
+      .on(
+        "start",
+        (event: d3.D3DragEvent<SVGGElement, EventData, EventData>, d) =>
+          this.handleDragStart(event, d),
+      )
+      .on("drag", (event: d3.D3DragEvent<SVGGElement, EventData, EventData>) =>
+        this.handleDrag(event),
+      )
+      .on("end", () => this.handleDragEnd());
+
+    // 编辑模式下拖拽时间线标签调整顺序
+    this.labelDrag = d3
+      .drag<SVGTextElement, TimelineData, TimelineData>()
+      .filter((event: MouseEvent) => this.options.editable && !event.button)
+      .on("start", (_, d) => this.handleLabelDragStart(d))
+      .on(
+        "drag",
+        (event: d3.D3DragEvent<SVGTextElement, TimelineData, TimelineData>) =>
+          this.handleLabelDrag(event),
+      )
+      .on("end", () => this.handleLabelDragEnd());
+
+    // 拖拽标记线改变时刻
+    this.markerDrag = d3
+      .drag<SVGGElement, MarkerData, MarkerData>()
+      .filter((event: MouseEvent, d) => !!d.draggable && !event.button)
+      .on("start", (_, d) => {
+        this.markerDragOrigin = d.time;
+      })
+      .on(
+        "drag",
+        (event: d3.D3DragEvent<SVGGElement, MarkerData, MarkerData>, d) => {
+          d.time = this.getCurrentXScale().invert(event.x);
+          this.renderMarkers(this.getCurrentXScale());
+        },
+      )
+      .on("end", (_, d) => {
+        const oldTime = this.markerDragOrigin;
+        this.markerDragOrigin = undefined;
+        if (oldTime && oldTime.getTime() !== d.time.getTime()) {
+          this.emitDataChange("updateMarker");
+          this.emit("marker.move", { data: { ...d }, oldTime });
+        }
+      });
+
+    // 按住 Alt 在绘图区拖拽进行框选
+    this.brush = d3
+      .drag<SVGSVGElement, unknown>()
+      .container(() => this.timelineGroup.node()!)
+      .filter(
+        (event: MouseEvent) =>
+          event.altKey && !event.button && this.isPointInClipArea(event),
+      )
+      .on("start", (event: d3.D3DragEvent<SVGSVGElement, unknown, unknown>) =>
+        this.handleBrushStart(event),
+      )
+      .on("drag", (event: d3.D3DragEvent<SVGSVGElement, unknown, unknown>) =>
+        this.handleBrush(event),
+      )
+      .on("end", (event: d3.D3DragEvent<SVGSVGElement, unknown, unknown>) =>
+        this.handleBrushEnd(event),
+      );
+  }
+
+  private setupTooltip(): void {
+    const options = this.getTooltipOptions();
+    if (!options) return;
+    const node = document.createElement("div");
+    (options.container ?? document.body).appendChild(node);
+    // 颜色使用内联样式引用主题变量，挂载到 shadow root 时不依赖外部样式表
+    this.tooltip = d3
+      .select(node)
+      .attr("class", "d3-timeline-tooltip")
+      .attr("role", "tooltip")
+      .style("position", "fixed")
+      .style("background", "var(--d3-timeline-tooltip-background)")
+      .style("color", "var(--d3-timeline-tooltip-text)")
+      .style("box-shadow", "var(--d3-timeline-tooltip-shadow)")
+      .style("padding", "12px")
+      .style("border-radius", "8px")
+      .style("font-size", "12px")
+      .style("pointer-events", "none")
+      .style("opacity", 0)
+      .style("z-index", "1000")
+      .style("max-width", "250px");
+    // 工具提示挂载在容器之外，不会继承容器上的主题变量
+    this.applyThemeProperties(this.tooltip);
+  }
+
+  // 视觉隐藏的实时区域，用于向屏幕阅读器播报可见范围
+  private setupLiveRegion(): void {
+    this.liveRegion = this.container
+      .append("div")
+      .attr("class", "d3-timeline-live-region")
+      .attr("role", "status")
+      .attr("aria-live", "polite");
+    // 禁用工具提示时，聚焦事件通过 aria-describedby 引用这里的详情
+    this.eventDetails = this.container
+      .append("div")
+      .attr("id", `event-details-${this.options.id}`)
+      .property("hidden", true);
+  }
+
+  private announce(message: string): void {
+    this.liveRegion.text(message);
   }
 
   private setupPlugins() {
@@ -520,35 +1716,304 @@ export class D3Timeline {
     }
 
     if (this.svg) {
-      this.svg.on("click", (event: MouseEvent) => {
-        const eventDom = (event.target as HTMLElement).closest(".event");
-        if (eventDom) {
-          const eventData = d3.select(eventDom).datum() as EventData;
-          this.emit("click", { data: eventData });
-        }
-      });
+      this.svg
+        .on("click", (event: MouseEvent) => this.handleClick(event))
+        .on("dblclick", (event: MouseEvent) => {
+          const data = this.findEventByPointer(event);
+          if (data) {
+            this.emit("event.dblclick", { data, ...this.toPointerData(event) });
+          }
+        })
+        .on("contextmenu", (event: MouseEvent) => {
+          const data = this.findEventByPointer(event);
+          if (data) {
+            this.emit("event.contextmenu", {
+              data,
+              ...this.toPointerData(event),
+            });
+          }
+        })
+        .on("keydown", (event: KeyboardEvent) => this.handleKeydown(event))
+        .call(this.brush);
+    }
+    if (this.canvas) {
+      this.canvas
+        .on("mousemove", (event: MouseEvent) => this.handleCanvasHover(event))
+        .on("mouseleave", (event: MouseEvent) => {
+          if (this.hoveredHit) {
+            this.emit("event.leave", {
+              data: this.hoveredHit.data,
+              ...this.toPointerData(event),
+            });
+          }
+          this.hoveredHit = undefined;
+          this.hideTooltip();
+        });
     }
     window.addEventListener("resize", this.boundResize);
   }
 
+  private handleClick(event: MouseEvent): void {
+    const pointer = this.toPointerData(event);
+
+    const markerDom = (event.target as Element).closest(
+      ".d3-marker, .d3-marker-label",
+    );
+    if (markerDom) {
+      const data = d3.select(markerDom).datum() as MarkerData;
+      this.emit("marker.click", { data: { ...data }, ...pointer });
+      return;
+    }
+
+    const toggleDom = (event.target as Element).closest(".d3-timeline-toggle");
+    if (toggleDom) {
+      const timeline = d3.select(toggleDom).datum() as TimelineData;
+      this.toggleTimeline(timeline.id);
+      return;
+    }
+
+    const data = this.findEventByPointer(event);
+    if (data) {
+      this.selectByClick(
+        data,
+        event.shiftKey || event.ctrlKey || event.metaKey,
+      );
+      this.pinTooltip(data);
+      this.emit("click", { data, ...pointer });
+      return;
+    }
+
+    this.hideTooltip(true);
+
+    const clusterDom = (event.target as Element).closest(".d3-cluster");
+    if (clusterDom) {
+      const cluster = d3.select(clusterDom).datum() as EventCluster;
+      this.handleClusterClick(cluster);
+      return;
+    }
+
+    const stageLine = this.findStageLineByPointer(event);
+    if (stageLine) {
+      this.emit("stageline.click", {
+        stageId: stageLine.id,
+        data: [...stageLine.events],
+        ...pointer,
+      });
+      return;
+    }
+
+    const timeline = this.findTimelineByPointer(event);
+    if (timeline) {
+      this.emit("timeline.click", { data: timeline, ...pointer });
+      return;
+    }
+
+    if (this.isPointInClipArea(event)) {
+      if (!event.shiftKey && !event.ctrlKey && !event.metaKey) {
+        this.clearSelection();
+      }
+      this.emit("background.click", pointer);
+    }
+  }
+
+  /**
+   * 点击选择：追加模式下切换选中状态，否则只选中该事件
+   * @param data - 被点击的事件
+   * @param additive - 是否追加选择
+   */
+  private selectByClick(data: EventData, additive: boolean): void {
+    const ids = new Set(additive ? this.selectedEventIds : []);
+    if (additive && ids.has(data.id)) {
+      ids.delete(data.id);
+    } else {
+      ids.add(data.id);
+    }
+    this.updateSelection(ids);
+  }
+
+  private handleBrushStart(
+    event: d3.D3DragEvent<SVGSVGElement, unknown, unknown>,
+  ): void {
+    const sourceEvent = event.sourceEvent as MouseEvent;
+    this.brushState = {
+      origin: [event.x, event.y],
+      additive:
+        sourceEvent.shiftKey || sourceEvent.ctrlKey || sourceEvent.metaKey,
+    };
+    this.hideTooltip(true);
+    this.brushGroup
+      .append("rect")
+      .attr("class", "d3-brush-selection")
+      .attr("x", event.x)
+      .attr("y", event.y)
+      .attr("width", 0)
+      .attr("height", 0);
+  }
+
+  private handleBrush(
+    event: d3.D3DragEvent<SVGSVGElement, unknown, unknown>,
+  ): void {
+    if (!this.brushState) return;
+    const [x0, y0] = this.brushState.origin;
+    this.brushGroup
+      .select(".d3-brush-selection")
+      .attr("x", Math.min(x0, event.x))
+      .attr("y", Math.min(y0, event.y))
+      .attr("width", Math.abs(event.x - x0))
+      .attr("height", Math.abs(event.y - y0));
+  }
+
+  private handleBrushEnd(
+    event: d3.D3DragEvent<SVGSVGElement, unknown, unknown>,
+  ): void {
+    if (!this.brushState) return;
+    const [x0, y0] = this.brushState.origin;
+    const { additive } = this.brushState;
+    this.brushState = undefined;
+    this.brushGroup.selectAll("*").remove();
+
+    // 框选范围换算为时间范围和时间线
+    const xScale = this.getCurrentXScale();
+    const start = xScale.invert(Math.min(x0, event.x));
+    const end = xScale.invert(Math.max(x0, event.x));
+    const top = Math.min(y0, event.y);
+    const bottom = Math.max(y0, event.y);
+    const timelineIds = new Set(
+      this.visibleTimelines
+        .filter((t) => {
+          const offset = this.calculateTimelineOffsetY(t);
+          return offset <= bottom && offset + this.getTimelineHeight(t) >= top;
+        })
+        .map((t) => t.id),
+    );
+
+    const ids = new Set(additive ? this.selectedEventIds : []);
+    this.events
+      .filter(
+        (e) =>
+          timelineIds.has(e.timelineId) &&
+          this.getEventEnd(e) >= start &&
+          this.getEventStart(e) <= end,
+      )
+      .forEach((e) => ids.add(e.id));
+    this.updateSelection(ids);
+  }
+
+  /**
+   * 更新选中的事件，发生变化时刷新样式并触发 selection.change
+   * @param ids - 新的选中事件ID集合
+   */
+  private updateSelection(ids: Set<ID>): void {
+    const changed =
+      ids.size !== this.selectedEventIds.size ||
+      [...ids].some((id) => !this.selectedEventIds.has(id));
+    if (!changed) return;
+
+    this.selectedEventIds = ids;
+    this.updateSelectionStyles();
+    this.emit("selection.change", { data: this.getSelection() });
+  }
+
+  private updateSelectionStyles(): void {
+    if (this.isCanvasRenderer()) {
+      this.drawCanvas(this.getCurrentXScale());
+      return;
+    }
+    this.eventGroup
+      .selectAll<SVGGElement, EventData>(".event")
+      .classed("d3-event-selected", (d) => this.selectedEventIds.has(d.id));
+  }
+
+  // 构造指针交互事件的公共数据
+  private toPointerData(event: MouseEvent): PointerEventData {
+    const [x] = d3.pointer(event, this.timelineGroup.node());
+    return { sourceEvent: event, time: this.getCurrentXScale().invert(x) };
+  }
+
+  /**
+   * 查找指针下的事件
+   * @param event - 鼠标事件
+   */
+  private findEventByPointer(event: MouseEvent): EventData | undefined {
+    if (this.isCanvasRenderer()) {
+      const [x, y] = d3.pointer(event, this.timelineGroup.node());
+      return this.hitIndex.find(x, y)?.data;
+    }
+    const eventDom = (event.target as Element).closest(".event");
+    return eventDom ? (d3.select(eventDom).datum() as EventData) : undefined;
+  }
+
+  /**
+   * 查找指针下的时间线（标签或背景）
+   * @param event - 鼠标事件
+   */
+  private findTimelineByPointer(event: MouseEvent): TimelineData | undefined {
+    const target = event.target as Element;
+    const labelDom = target.closest(".d3-timeline-label");
+    if (labelDom) return d3.select(labelDom).datum() as TimelineData;
+
+    if (this.isCanvasRenderer()) {
+      if (!this.isPointInClipArea(event)) return undefined;
+      const [, y] = d3.pointer(event, this.timelineGroup.node());
+      return this.visibleTimelines.find((t) => {
+        const top = this.calculateTimelineOffsetY(t);
+        return y >= top && y <= top + this.getTimelineHeight(t);
+      });
+    }
+    const bgDom = target.closest(".d3-timeline-bg");
+    return bgDom ? (d3.select(bgDom).datum() as TimelineData) : undefined;
+  }
+
+  /**
+   * 查找指针下的阶段线
+   * @param event - 鼠标事件
+   */
+  private findStageLineByPointer(event: MouseEvent): StageLine | undefined {
+    if (!this.stageLinesVisible) return undefined;
+    if (this.isCanvasRenderer()) {
+      const context = this.canvas?.node()?.getContext("2d");
+      if (!context) return undefined;
+      const [x, y] = d3.pointer(event, this.timelineGroup.node());
+      const ratio = window.devicePixelRatio || 1;
+      context.save();
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      // 适当加宽命中范围，细线也能被点中
+      context.lineWidth = Math.max(this.options.stageLineParams.size, 6);
+      const hit = this.canvasStagePaths.find((p) =>
+        context.isPointInStroke(p.path, x * ratio, y * ratio),
+      );
+      context.restore();
+      return hit;
+    }
+    const stageDom = (event.target as Element).closest(".stage-line-group");
+    return stageDom ? (d3.select(stageDom).datum() as StageLine) : undefined;
+  }
+
   private removeEventListeners() {
     if (this.zoom) {
       this.zoom.on("zoom", null).on("zoom.end", null);
     }
     if (this.svg) {
-      this.svg.on("click", null);
+      this.svg
+        .on("click", null)
+        .on("dblclick", null)
+        .on("contextmenu", null)
+        .on("keydown", null)
+        .on(".drag", null);
+    }
+    if (this.canvas) {
+      this.canvas.on("mousemove", null).on("mouseleave", null);
     }
     window.removeEventListener("resize", this.boundResize);
     // 移除绑定事件
-    this.eventBindings.click.clear();
-    this.eventBindings.zoom.clear();
-    this.eventBindings["zoom.end"].clear();
+    this.eventBindings.clear();
+    this.onceHandlers.clear();
   }
 
   // 更新时间线位置
   private updateTimelinePositions(): void {
     this.timelineGroup
-      .selectAll<SVGGElement, TimelineData>(".timeline")
+      .selectAll<SVGGElement, TimelineData>(".d3-timeline")
       .attr(
         "transform",
         (d) => `translate(0, ${this.calculateTimelineOffsetY(d)})`,
@@ -556,55 +2021,327 @@ export class D3Timeline {
   }
 
   private calculateTimelineOffsetY(timeline?: TimelineData): number {
-    return timeline
-      ? (this.timelines.length - this.timelines.indexOf(timeline) - 1) *
-          (this.options.timelineHeight + this.options.timelineSpacing) +
-          this.options.margin.top
-      : 0;
+    if (!timeline) return 0;
+    // 被折叠的子时间线位于其分组的汇总行
+    const lane = this.displayTimelines.get(timeline.id) ?? timeline;
+    return this.laneOffsets.get(lane.id) ?? this.getLanesTop();
+  }
+
+  private getTimelineHeight(timeline: TimelineData): number {
+    return (
+      this.laneLayouts.get(timeline.id)?.height ??
+      this.getLaneBaseHeight(timeline)
+    );
+  }
+
+  // 时间线单行的高度
+  private getLaneBaseHeight(timeline: TimelineData): number {
+    return timeline.height ?? this.options.timelineHeight;
+  }
+
+  // 时间线相对于全局 timelineHeight 的缩放比例，子行高度和事件尺寸按此比例缩放
+  private getLaneScale(timeline: TimelineData): number {
+    return this.getLaneBaseHeight(timeline) / this.options.timelineHeight;
+  }
+
+  // 时间线主线（第一行中线）相对于时间线顶部的位置
+  private getLaneCenterY(timeline: TimelineData): number {
+    return this.getLaneBaseHeight(timeline) / 2;
+  }
+
+  // 事件实际显示所在的时间线（被折叠的子时间线显示在其分组中）
+  private getEventLane(event: EventData): TimelineData | undefined {
+    return (
+      this.displayTimelines.get(event.timelineId) ??
+      this.timelines.find((t) => t.id === event.timelineId)
+    );
+  }
+
+  private getEventGeometry(event: EventData): EventGeometry {
+    const lane = this.getEventLane(event);
+    const scale = lane ? this.getLaneScale(lane) : 1;
+    return {
+      rangeHeight: 30 * scale,
+      radius: 8 * scale,
+      titleOffset: 20 * scale,
+    };
+  }
+
+  private calculateEventOffsetY(event: EventData): number {
+    const timeline = this.timelines.find((t) => t.id === event.timelineId);
+    if (!timeline) return 0;
+    const lane = this.displayTimelines.get(timeline.id) ?? timeline;
+    // 被折叠的事件（及指向它们的阶段线）位于汇总行的中线
+    const row =
+      lane !== timeline
+        ? 0
+        : (this.laneLayouts.get(timeline.id)?.eventRows.get(event.id) ?? 0);
+    return (
+      this.calculateTimelineOffsetY(timeline) +
+      this.getLaneCenterY(lane) +
+      row * this.options.rowHeight * this.getLaneScale(lane)
+    );
+  }
+
+  private isEventOverflowed(event: EventData): boolean {
+    const layout = this.laneLayouts.get(event.timelineId);
+    return !!layout && layout.overflow.has(event);
+  }
+
+  // 时间线是否位于已折叠的分组中
+  private isTimelineCollapsedInto(id: ID): boolean {
+    const lane = this.displayTimelines.get(id);
+    return !!lane && lane.id !== id;
+  }
+
+  // 被折叠或被聚合的事件不单独显示
+  private isEventHidden(event: EventData): boolean {
+    return (
+      this.isEventOverflowed(event) ||
+      this.clusteredEventIds.has(event.id) ||
+      this.isTimelineCollapsedInto(event.timelineId)
+    );
+  }
+
+  /**
+   * 计算每条时间线内事件的子行布局
+   * @returns 时间线高度是否发生了变化
+   */
+  private layoutLanes(): boolean {
+    const { eventPacking, maxRows, rowHeight } = this.options;
+    const previous = this.laneLayouts;
+    const previousBand = this.markerBandHeight;
+    const xScale = this.getCurrentXScale();
+    this.laneLayouts = new Map();
+    this.markerBandHeight = this.getMarkerBandHeight();
+
+    this.timelines.forEach((timeline) => {
+      const events = this.events.filter((e) => e.timelineId === timeline.id);
+      const rows = eventPacking
+        ? packIntervals(
+            events.map((e) => this.getEventPixelExtent(e, xScale)),
+            ([start]) => start,
+            ([, end]) => end,
+          )
+        : events.map(() => 0);
+
+      const baseHeight = this.getLaneBaseHeight(timeline);
+      const layout: LaneLayout = {
+        rows: 1,
+        height: baseHeight,
+        eventRows: new Map(),
+        overflow: new Set(),
+        rollup: [],
+      };
+      events.forEach((event, i) => {
+        let row = rows[i];
+        if (maxRows > 0 && row >= maxRows) {
+          layout.overflow.add(event);
+          row = maxRows - 1;
+        }
+        layout.eventRows.set(event.id, row);
+        layout.rows = Math.max(layout.rows, row + 1);
+      });
+      layout.height =
+        baseHeight +
+        (layout.rows - 1) * rowHeight * this.getLaneScale(timeline);
+      this.laneLayouts.set(timeline.id, layout);
+    });
+
+    const previousVisible = this.visibleTimelines;
+    this.layoutHierarchy();
+
+    return (
+      previousBand !== this.markerBandHeight ||
+      previous.size !== this.laneLayouts.size ||
+      previousVisible.length !== this.visibleTimelines.length ||
+      previousVisible.some((t, i) => t.id !== this.visibleTimelines[i].id) ||
+      this.timelines.some(
+        (t) =>
+          previous.get(t.id)?.height !== this.laneLayouts.get(t.id)?.height,
+      )
+    );
+  }
+
+  /**
+   * 计算分组层级：显示的时间线及其纵向位置、折叠分组的汇总范围
+   */
+  private layoutHierarchy(): void {
+    this.visibleTimelines = this.getTimelinesInVisualOrder();
+    this.displayTimelines = new Map();
+    this.laneOffsets = new Map();
+
+    let offset = this.getLanesTop();
+    this.visibleTimelines.forEach((timeline) => {
+      this.laneOffsets.set(timeline.id, offset);
+      offset += this.getTimelineHeight(timeline) + this.options.timelineSpacing;
+
+      this.displayTimelines.set(timeline.id, timeline);
+      if (!this.collapsedTimelineIds.has(timeline.id)) return;
+      const descendants = this.getDescendantTimelineIds(timeline.id);
+      descendants.forEach((id) => this.displayTimelines.set(id, timeline));
+
+      const layout = this.laneLayouts.get(timeline.id);
+      if (!layout) return;
+      layout.rollup = mergeIntervals(
+        this.events.filter((e) => descendants.has(e.timelineId)),
+        (e) => e.startTime.getTime(),
+        (e) => this.getEventEnd(e).getTime(),
+      ).map(([start, end]) => ({ start: new Date(start), end: new Date(end) }));
+    });
+  }
+
+  // 时间线的父时间线（父时间线不存在时视为顶层）
+  private getParentTimeline(timeline: TimelineData): TimelineData | undefined {
+    if (timeline.parentId === undefined) return undefined;
+    return this.timelines.find((t) => t.id === timeline.parentId);
+  }
+
+  private hasChildTimelines(timeline: TimelineData): boolean {
+    return this.timelines.some((t) => t.parentId === timeline.id);
+  }
+
+  private getTimelineDepth(timeline: TimelineData): number {
+    let depth = 0;
+    let parent = this.getParentTimeline(timeline);
+    while (parent && depth < this.timelines.length) {
+      depth++;
+      parent = this.getParentTimeline(parent);
+    }
+    return depth;
+  }
+
+  private getDescendantTimelineIds(id: ID): Set<ID> {
+    const result = new Set<ID>();
+    const visit = (parentId: ID) => {
+      this.timelines.forEach((t) => {
+        if (t.parentId === parentId && !result.has(t.id) && t.id !== id) {
+          result.add(t.id);
+          visit(t.id);
+        }
+      });
+    };
+    visit(id);
+    return result;
+  }
+
+  // 根据配置创建时间线对象，未定义的可选字段不会出现在对象上
+  private createTimeline(config: TimelineConfig): TimelineData {
+    const timeline: TimelineData = {
+      id: config.id ?? generateID(),
+      name: config.name,
+      color: config.color ?? "#667eea",
+    };
+    D3Timeline.TIMELINE_OPTIONAL_KEYS.forEach((key) => {
+      if (config[key] !== undefined) {
+        Object.assign(timeline, { [key]: config[key] });
+      }
+    });
+    return timeline;
+  }
+
+  /**
+   * 检查时间线的父子关系，时间线不能是自身的祖先
+   * @param timelines - 要检查的全部时间线
+   */
+  private assertTimelineHierarchy(timelines: TimelineData[]): void {
+    const parents = new Map(timelines.map((t) => [t.id, t.parentId]));
+    timelines.forEach((timeline) => {
+      const visited = new Set<ID>([timeline.id]);
+      let parentId = timeline.parentId;
+      while (parentId !== undefined && parents.has(parentId)) {
+        if (visited.has(parentId)) {
+          throw Error("The parentId is invalid.");
+        }
+        visited.add(parentId);
+        parentId = parents.get(parentId);
+      }
+    });
+  }
+
+  /**
+   * 根据纵坐标查找所在的时间线
+   * @param y - 相对于主分组的纵坐标
+   */
+  private findTimelineByOffsetY(y: number): TimelineData | undefined {
+    const spacing = this.options.timelineSpacing / 2;
+    return this.visibleTimelines.find((t) => {
+      const top = this.calculateTimelineOffsetY(t);
+      return (
+        y >= top - spacing && y < top + this.getTimelineHeight(t) + spacing
+      );
+    });
+  }
+
+  /**
+   * 获取应用了当前缩放变换的比例尺
+   */
+  private getCurrentXScale(): d3.ScaleTime<number, number> {
+    return this.lastTransform ? this.rescale(this.lastTransform) : this.xScale;
   }
 
+  // 根据时间线布局计算沿时间线排列方向的总长度（纵向模式下为宽度）
   private calculateHeight() {
+    const { margin } = this.getLayoutFrame();
     return (
-      this.options.margin.top +
-      this.options.margin.bottom +
-      this.options.axisHeight +
-      this.timelines.length *
-        (this.options.timelineSpacing + this.options.timelineHeight)
+      margin.top +
+      margin.bottom +
+      this.getAxisBandHeight() +
+      d3.sum(
+        this.visibleTimelines,
+        (t) => this.options.timelineSpacing + this.getTimelineHeight(t),
+      )
     );
   }
 
   // 更新事件位置
   private updateEventPositions(xScale: d3.ScaleTime<number, number>): void {
-    this.eventGroup
+    const events = this.eventGroup
       .selectAll<SVGGElement, EventData>(".event")
       .attr("transform", (d) => {
-        const timeline = this.timelines.find((t) => t.id === d.timelineId);
-        const x = xScale(d.startTime);
-        const y = timeline
-          ? this.calculateTimelineOffsetY(timeline) +
-            this.options.timelineHeight / 2
-          : 0;
+        const x = xScale(this.getEventStart(d, xScale));
+        const y = this.calculateEventOffsetY(d);
         return `translate(${x}, ${y})`;
-      })
-      .select(".d3-event-range") // 更新范围事件的宽度
-      .attr("width", (d) => {
-        if (d.type === "range") {
-          const endX = xScale(d.endTime);
-          const startX = xScale(d.startTime);
-          return Math.max(5, endX - startX);
-        }
-        return 0;
       });
+    this.renderCustomEvents(events, xScale, 0);
+    events
+      .filter((d) => !this.getEventRenderer(d))
+      .select(".d3-event-range") // 更新范围事件的宽度
+      .attr("width", (d) =>
+        d.type === "range" ? this.calculateEventWidth(d, xScale) : 0,
+      );
+    events
+      .select(".d3-event-status")
+      .attr("width", (d) => this.calculateEventWidth(d, xScale));
+    events
+      .select(".d3-event-progress")
+      .attr("width", (d) => this.calculateProgressWidth(d, xScale));
+    events
+      .select(".d3-event-progress-handle")
+      .attr(
+        "x",
+        (d) =>
+          this.calculateProgressWidth(d, xScale) - D3Timeline.HANDLE_WIDTH / 2,
+      );
+    events
+      .select(".d3-event-cap")
+      .attr("d", (d) =>
+        this.calculateEventCapPath(
+          this.calculateEventWidth(d, xScale),
+          this.getEventGeometry(d).rangeHeight,
+        ),
+      );
 
+    // 更新结束边缘拖拽手柄的位置
     this.eventGroup
       .selectAll<SVGGElement, EventData>(".event")
-      .filter((d) => d.type === "range")
+      .select(".d3-event-handle-end")
+      .attr("x", (d) => this.calculateEndHandleX(d, xScale));
+
+    events
+      .filter((d) => d.type === "range" && !this.getEventRenderer(d))
       .select(".d3-event-text")
-      .attr("x", (d) => {
-        const endX = xScale(d.endTime);
-        const startX = xScale(d.startTime);
-        return (endX - startX) / 2;
-      });
+      .attr(this.textAttr("x"), (d) => this.calculateEventWidth(d, xScale) / 2);
 
     // 更新范围事件的文字位置
     this.eventGroup
@@ -621,52 +2358,253 @@ export class D3Timeline {
       });
   }
 
-  private emit<T extends EventType>(eventType: T, data: EventMap[T]) {
-    this.eventBindings[eventType].forEach((handler) => {
-      (handler as EventHandler<T>)(data);
-    });
+  private calculateEndHandleX(
+    d: EventData,
+    xScale: d3.ScaleTime<number, number>,
+  ): number {
+    return this.calculateEventWidth(d, xScale) - D3Timeline.HANDLE_WIDTH / 2;
   }
+
+  // 范围事件的显示宽度（至少 5 像素）
   /**
-   * 绑定事件
-   * @param {EventType} eventType 事件类型
-   * @param {EventHandler} handler 事件处理器
+   * 获取事件沿时间方向的渲染范围（像素），包括点事件的图形和超出事件本身的标题
+   * @param event - 事件数据
+   * @param xScale - 当前比例尺
    */
-  public on<T extends EventType>(eventType: T, handler: EventHandler<T>) {
-    if (!this.eventBindings[eventType].has(handler)) {
-      this.eventBindings[eventType].add(handler);
-    }
+  private getEventPixelExtent(
+    event: EventData,
+    xScale: d3.ScaleTime<number, number>,
+  ): [number, number] {
+    const start = xScale(this.getEventStart(event, xScale));
+    const width =
+      event.type === "range" ? this.calculateEventWidth(event, xScale) : 0;
+    const center = start + width / 2;
+    // 纵向模式下标题横排，只占用一行文字的高度
+    const title = this.isVertical() ? 12 : this.measureTitle(event.title);
+    const half = Math.max(
+      event.type === "range" ? width / 2 : this.getEventAnchorRadius(event),
+      title / 2,
+    );
+    return [
+      // 开始时间未知的事件可能与之前的任何事件重叠
+      event.openStart ? -Infinity : Math.min(start, center - half),
+      center + half,
+    ];
+  }
+
+  // 按事件标题的字体估算文字宽度
+  private measureTitle(title: string): number {
+    this.textMeasureContext ??= document
+      .createElement("canvas")
+      .getContext("2d");
+    if (!this.textMeasureContext) return title.length * 7;
+    this.textMeasureContext.font = "bold 12px sans-serif";
+    return this.textMeasureContext.measureText(title).width;
+  }
+
+  private calculateEventWidth(
+    d: EventData,
+    xScale: d3.ScaleTime<number, number>,
+  ): number {
+    const startX = xScale(this.getEventStart(d, xScale));
+    return Math.max(5, xScale(this.getEventEnd(d)) - startX);
   }
+
   /**
-   * 事件解绑
-   * @param {EventType} eventType 事件类型
-   * @param {EventHandler} handler 事件处理器
+   * 获取事件的显示开始时间，开始时间未知的事件延伸到视口左边缘
+   * @param event - 事件数据
+   * @param xScale - 当前比例尺
    */
-  public off<T extends EventType>(eventType: T, handler: EventHandler<T>) {
-    this.eventBindings[eventType].delete(handler);
+  private getEventStart(
+    event: EventData,
+    xScale: d3.ScaleTime<number, number> = this.getCurrentXScale(),
+  ): Date {
+    if (!event.openStart) return event.startTime;
+    const edge = xScale.domain()[0];
+    return edge < event.startTime ? edge : event.startTime;
   }
 
   /**
-   * 添加时间轴
-   * @param {string} name - 时间轴名称
-   * @param {string} [color="#667eea"] - 时间轴颜色（十六进制或CSS颜色值）
-   * @param {ID} id - 时间轴ID（可选）
-   * @returns {TimelineData} 新增的时间轴对象
+   * 获取事件的结束时间，进行中的事件延伸到当前时间
+   * @param event - 事件数据
    */
-  public addTimeline(
-    name: string,
-    color: string = "#667eea",
-    id?: ID,
-    autofit = true,
-  ): TimelineData {
-    const timeline: TimelineData = {
-      id: id ?? generateID(),
-      name: name,
-      color: color,
-    };
+  private getEventEnd(event: EventData): Date {
+    if (!event.openEnd) return event.endTime;
+    const now = new Date();
+    return now > event.endTime ? now : event.endTime;
+  }
 
-    this.timelines.push(timeline);
+  // 进度条的宽度
+  private calculateProgressWidth(
+    d: EventData,
+    xScale: d3.ScaleTime<number, number>,
+  ): number {
+    return this.calculateEventWidth(d, xScale) * clamp(d.progress ?? 0, 0, 1);
+  }
 
-    if (autofit) {
+  // 状态图案的填充，没有对应图案时返回 null
+  private getStatusFill(event: EventData): string | null {
+    return event.status && D3Timeline.STATUS_PATTERNS.includes(event.status)
+      ? `url(#status-${event.status}-${this.options.id})`
+      : null;
+  }
+
+  // 进行中事件末端的箭头，覆盖矩形的圆角
+  private calculateEventCapPath(width: number, height: number): string {
+    return `M${width - 6},${-height / 2}L${width + height / 2},0L${width - 6},${height / 2}Z`;
+  }
+
+  private emit<T extends EventType>(eventType: T, data: EventMap[T]) {
+    this.eventBindings.get(eventType)?.forEach((handler) => {
+      (handler as EventHandler<T>)(data);
+    });
+  }
+
+  private emitDataChange(action: DataChangeAction) {
+    if (action !== "undo" && action !== "redo") {
+      this.recordHistory(action);
+    }
+    this.emit("data.change", {
+      action,
+      timelines: [...this.timelines],
+      events: [...this.events],
+    });
+  }
+  private takeSnapshot(): DataSnapshot {
+    return {
+      timelines: [...this.timelines],
+      events: [...this.events],
+      timeRegions: [...this.timeRegions],
+      // 拖拽标记线会直接修改其时刻，因此需要复制
+      markers: this.markers.map((m) => ({ ...m })),
+    };
+  }
+
+  // 记录一次数据变化，批量操作（如 addEvents、importData）只记录为一步
+  private recordHistory(action: DataChangeAction) {
+    const after = this.takeSnapshot();
+    const depth = this.options.historyDepth;
+    if (depth > 0) {
+      this.undoStack.push({ action, before: this.currentSnapshot, after });
+      if (this.undoStack.length > depth) {
+        this.undoStack.splice(0, this.undoStack.length - depth);
+      }
+      this.redoStack = [];
+      this.emitHistoryChange();
+    }
+    this.currentSnapshot = after;
+  }
+
+  private emitHistoryChange() {
+    this.emit("history.change", {
+      canUndo: this.canUndo,
+      canRedo: this.canRedo,
+    });
+  }
+
+  // 恢复快照，通过 render 的过渡动画回到之前的状态
+  private restoreSnapshot(
+    snapshot: DataSnapshot,
+    action: DataChangeAction,
+  ): void {
+    this.timelines = [...snapshot.timelines];
+    this.events = [...snapshot.events];
+    this.timeRegions = [...snapshot.timeRegions];
+    this.markers = snapshot.markers.map((m) => ({ ...m }));
+    this.currentSnapshot = snapshot;
+    this.render(true);
+    this.emitDataChange(action);
+    this.emitHistoryChange();
+  }
+  /**
+   * 绑定事件
+   * @param {EventType} eventType 事件类型
+   * @param {EventHandler} handler 事件处理器
+   */
+  public on<T extends EventType>(eventType: T, handler: EventHandler<T>) {
+    let handlers = this.eventBindings.get(eventType);
+    if (!handlers) {
+      handlers = new Set();
+      this.eventBindings.set(eventType, handlers);
+    }
+    handlers.add(handler);
+  }
+  /**
+   * 绑定只触发一次的事件
+   * @param {EventType} eventType 事件类型
+   * @param {EventHandler} handler 事件处理器
+   */
+  public once<T extends EventType>(eventType: T, handler: EventHandler<T>) {
+    const wrapper: EventHandler<T> = (event) => {
+      this.off(eventType, handler);
+      handler(event);
+    };
+    let wrappers = this.onceHandlers.get(eventType);
+    if (!wrappers) {
+      wrappers = new WeakMap();
+      this.onceHandlers.set(eventType, wrappers);
+    }
+    wrappers.set(handler, wrapper);
+    this.on(eventType, wrapper);
+  }
+  /**
+   * 事件解绑
+   * @param {EventType} eventType 事件类型
+   * @param {EventHandler} handler 事件处理器
+   */
+  public off<T extends EventType>(eventType: T, handler: EventHandler<T>) {
+    const handlers = this.eventBindings.get(eventType);
+    if (!handlers) return;
+    handlers.delete(handler);
+    const wrappers = this.onceHandlers.get(eventType);
+    const wrapper = wrappers?.get(handler);
+    if (wrapper) {
+      handlers.delete(wrapper);
+      wrappers?.delete(handler);
+    }
+  }
+
+  /**
+   * 添加时间轴
+   * @param {TimelineConfig} config - 时间轴配置，例如名称、颜色、父时间轴ID、高度和背景
+   * @param {boolean} [autofit=true] - 是否自动调整视图尺寸
+   * @returns {TimelineData} 新增的时间轴对象
+   */
+  public addTimeline(config: TimelineConfig, autofit?: boolean): TimelineData;
+  /**
+   * 添加时间轴
+   * @param {string} name - 时间轴名称
+   * @param {string} [color="#667eea"] - 时间轴颜色（十六进制或CSS颜色值）
+   * @param {ID} id - 时间轴ID（可选）
+   * @param {boolean} [autofit=true] - 是否自动调整视图尺寸
+   * @returns {TimelineData} 新增的时间轴对象
+   */
+  public addTimeline(
+    name: string,
+    color?: string,
+    id?: ID,
+    autofit?: boolean,
+  ): TimelineData;
+  public addTimeline(
+    nameOrConfig: string | TimelineConfig,
+    colorOrAutofit?: string | boolean,
+    id?: ID,
+    autofit = true,
+  ): TimelineData {
+    let config: TimelineConfig;
+    if (typeof nameOrConfig === "string") {
+      config = { name: nameOrConfig, color: colorOrAutofit as string, id };
+    } else {
+      config = nameOrConfig;
+      autofit = colorOrAutofit !== false;
+    }
+    const timeline = this.createTimeline(config);
+
+    this.assertTimelineHierarchy([...this.timelines, timeline]);
+    this.timelines.push(timeline);
+    this.emitDataChange("addTimeline");
+
+    if (autofit) {
       this.resize();
     }
 
@@ -675,31 +2613,25 @@ export class D3Timeline {
 
   /**
    * 批量添加时间轴
-   * @param {Array<{name: string, color?: string, id?: ID}>} timelineConfigs - 时间轴配置数组
+   * @param {TimelineConfig[]} timelineConfigs - 时间轴配置数组
+   * @param {boolean} [autofit=true] - 是否自动调整视图尺寸
    * @returns {TimelineData[]} 新增的时间轴对象数组
    */
   public addTimelines(
-    timelineConfigs: Array<{
-      name: string;
-      color?: string;
-      id?: ID;
-    }>,
+    timelineConfigs: TimelineConfig[],
     autofit = true,
   ): TimelineData[] {
     if (!Array.isArray(timelineConfigs) || timelineConfigs.length === 0) {
       return [];
     }
 
-    const addedTimelines: TimelineData[] = timelineConfigs.map((config) => {
-      const timeline: TimelineData = {
-        id: config.id ?? generateID(),
-        name: config.name,
-        color: config.color ?? "#667eea",
-      };
-      return timeline;
-    });
+    const addedTimelines = timelineConfigs.map((config) =>
+      this.createTimeline(config),
+    );
 
+    this.assertTimelineHierarchy([...this.timelines, ...addedTimelines]);
     this.timelines.push(...addedTimelines);
+    this.emitDataChange("addTimelines");
 
     if (autofit) {
       this.resize();
@@ -708,13 +2640,20 @@ export class D3Timeline {
   }
 
   /**
-   * 移除指定ID的时间轴及其所有事件
+   * 移除指定ID的时间轴及其所有事件，其子时间轴归入被移除时间轴的父时间轴
    * @param {ID} id - 要移除的时间轴ID
    * @returns {void}
    */
   public removeTimeline(id: ID): void {
-    this.timelines = this.timelines.filter((t) => t.id !== id);
+    const removed = this.timelines.find((t) => t.id === id);
+    this.timelines = this.timelines
+      .filter((t) => t.id !== id)
+      .map((t) =>
+        t.parentId === id ? { ...t, parentId: removed?.parentId } : t,
+      );
+    this.collapsedTimelineIds.delete(id);
     this.events = this.events.filter((e) => e.timelineId !== id);
+    this.emitDataChange("removeTimeline");
     this.resize();
   }
 
@@ -742,14 +2681,23 @@ export class D3Timeline {
       timelineId: timelineId,
       title: event.title || "",
       description: event.description || "",
-      startTime: event.startTime || new Date(),
+      startTime:
+        event.startTime || (event.openStart && event.endTime) || new Date(),
       endTime: event.endTime || event.startTime || new Date(),
       color: event.color || timeline.color,
-      type: event.endTime ? "range" : "point",
+      type:
+        event.endTime || event.openStart || event.openEnd ? "range" : "point",
       stage: event.stage,
+      openStart: event.openStart,
+      openEnd: event.openEnd,
+      progress: event.progress,
+      status: event.status,
+      shape: event.shape,
+      icon: event.icon,
     };
 
     this.events.push(eventData);
+    this.emitDataChange("addEvent");
     this.render();
     if (autofit) {
       this.fitRange();
@@ -781,16 +2729,25 @@ export class D3Timeline {
         timelineId: targetTimelineId,
         title: event.title || "",
         description: event.description || "",
-        startTime: event.startTime || new Date(),
+        startTime:
+          event.startTime || (event.openStart && event.endTime) || new Date(),
         endTime: event.endTime || event.startTime || new Date(),
         color: event.color || timeline.color,
-        type: event.endTime ? "range" : "point",
+        type:
+          event.endTime || event.openStart || event.openEnd ? "range" : "point",
         stage: event.stage,
+        openStart: event.openStart,
+        openEnd: event.openEnd,
+        progress: event.progress,
+        status: event.status,
+        shape: event.shape,
+        icon: event.icon,
       };
       return eventData;
     });
 
     this.events.push(...addedEvents);
+    this.emitDataChange("addEvents");
     this.render();
 
     if (autofit) {
@@ -802,32 +2759,307 @@ export class D3Timeline {
 
   /**
    * 移除指定ID的事件
-   * @param {number} id - 要移除的事件ID
+   * @param {ID} id - 要移除的事件ID
    * @returns {void}
    */
-  public removeEvent(id: number): void {
+  public removeEvent(id: ID): void {
     this.events = this.events.filter((e) => e.id !== id);
+    this.emitDataChange("removeEvent");
     this.render();
   }
+  /**
+   * 更新指定ID的时间线
+   * @param {ID} id - 时间线ID
+   * @param {TimelinePatch} patch - 需要更新的字段
+   * @returns {TimelineData | null} 成功返回更新后的时间线对象，未找到返回null
+   */
+  public updateTimeline(id: ID, patch: TimelinePatch): TimelineData | null {
+    const index = this.timelines.findIndex((t) => t.id === id);
+    if (index < 0) return null;
+    if (
+      patch.parentId !== undefined &&
+      (patch.parentId === id ||
+        this.getDescendantTimelineIds(id).has(patch.parentId))
+    ) {
+      throw Error("The parentId is invalid.");
+    }
+
+    const timeline: TimelineData = { ...this.timelines[index], ...patch, id };
+    this.timelines[index] = timeline;
+    this.emitDataChange("updateTimeline");
+    this.render(true);
+    return timeline;
+  }
+
+  /**
+   * 更新指定ID的事件，DOM元素保持不变并以过渡动画呈现变化
+   * @param {ID} id - 事件ID
+   * @param {EventPatch} patch - 需要更新的字段
+   * @returns {EventData | null} 成功返回更新后的事件对象，未找到返回null
+   */
+  public updateEvent(id: ID, patch: EventPatch): EventData | null {
+    const index = this.events.findIndex((e) => e.id === id);
+    if (index < 0) return null;
+
+    const eventData = this.patchEvent(this.events[index], patch);
+    this.events[index] = eventData;
+    this.emitDataChange("updateEvent");
+    this.render(true);
+    return eventData;
+  }
+
+  /**
+   * 批量更新事件
+   * @param {Array<{id: ID} & EventPatch>} patches - 带事件ID的更新字段数组
+   * @returns {EventData[]} 更新后的事件对象数组（不包含未找到的事件）
+   */
+  public updateEvents(patches: Array<{ id: ID } & EventPatch>): EventData[] {
+    if (!Array.isArray(patches) || patches.length === 0) return [];
+
+    // 在副本上应用所有更新，任一更新无效时不修改现有事件
+    const events = [...this.events];
+    const updatedEvents: EventData[] = [];
+    patches.forEach(({ id, ...patch }) => {
+      const index = events.findIndex((e) => e.id === id);
+      if (index < 0) return;
+      const eventData = this.patchEvent(events[index], patch);
+      events[index] = eventData;
+      updatedEvents.push(eventData);
+    });
+
+    if (updatedEvents.length > 0) {
+      this.events = events;
+      this.emitDataChange("updateEvents");
+      this.render(true);
+    }
+    return updatedEvents;
+  }
+
+  // 合并更新字段，生成新的事件对象（结束时间改变时重新推导事件类型）
+  private patchEvent(event: EventData, patch: EventPatch): EventData {
+    if (
+      patch.timelineId !== undefined &&
+      !this.timelines.some((t) => t.id === patch.timelineId)
+    ) {
+      throw Error("The timelineId is invalid.");
+    }
+
+    const eventData: EventData = { ...event, ...patch, id: event.id };
+    if ("endTime" in patch) {
+      eventData.type = patch.endTime ? "range" : "point";
+    }
+    // 开放的事件总是范围事件
+    if (eventData.openStart || eventData.openEnd) {
+      eventData.type = "range";
+    }
+    // 点事件的结束时间始终与开始时间一致
+    if (eventData.type === "point" || !eventData.endTime) {
+      eventData.endTime = eventData.startTime;
+    }
+    return eventData;
+  }
+
+  /**
+   * 移动时间线到指定位置，时间线、事件和阶段线会以动画移动到新位置
+   * @param {ID} id - 时间线ID
+   * @param {number} toIndex - 在时间线数组（getTimelines() 的顺序）中的目标索引
+   * @returns {boolean} 顺序是否发生了改变
+   */
+  public moveTimeline(id: ID, toIndex: number): boolean {
+    const fromIndex = this.timelines.findIndex((t) => t.id === id);
+    if (fromIndex < 0) return false;
+    toIndex = Math.max(0, Math.min(this.timelines.length - 1, toIndex));
+    if (fromIndex === toIndex) return false;
+
+    const [timeline] = this.timelines.splice(fromIndex, 1);
+    this.timelines.splice(toIndex, 0, timeline);
+    this.emit("timeline.reorder", {
+      data: timeline,
+      fromIndex,
+      toIndex,
+      timelines: [...this.timelines],
+    });
+    this.emitDataChange("moveTimeline");
+    this.render(true);
+    return true;
+  }
+
+  /**
+   * 展开或折叠时间线分组，折叠后分组显示子时间线事件的汇总
+   * @param {ID} id - 分组时间线ID
+   * @param {boolean} [collapsed] - 是否折叠，不传时切换当前状态
+   */
+  public toggleTimeline(id: ID, collapsed?: boolean): void {
+    const timeline = this.timelines.find((t) => t.id === id);
+    if (!timeline || !this.hasChildTimelines(timeline)) return;
+    collapsed = collapsed ?? !this.collapsedTimelineIds.has(id);
+    if (collapsed === this.collapsedTimelineIds.has(id)) return;
+
+    if (collapsed) {
+      this.collapsedTimelineIds.add(id);
+    } else {
+      this.collapsedTimelineIds.delete(id);
+    }
+    this.render(true);
+    this.emit("timeline.toggle", { data: timeline, collapsed });
+  }
+
+  /**
+   * 时间线分组是否已折叠
+   * @param {ID} id - 分组时间线ID
+   * @returns {boolean}
+   */
+  public isTimelineCollapsed(id: ID): boolean {
+    return this.collapsedTimelineIds.has(id);
+  }
+
+  /**
+   * 设置时间线的堆叠顺序
+   * @param {"asc" | "desc"} order - 'asc' 按数据顺序从上到下排列，'desc' 最后添加的位于最上方
+   */
+  public setTimelineOrder(order: "asc" | "desc"): void {
+    if (this.options.timelineOrder === order) return;
+    this.options.timelineOrder = order;
+    this.render(true);
+  }
+
+  /**
+   * 开启或关闭编辑模式
+   * @param {boolean} editable 是否允许拖拽编辑事件
+   */
+  public setEditable(editable: boolean): void {
+    this.options.editable = editable;
+    this.svg.classed("d3-editable", editable);
+    this.applyDrag(
+      this.eventGroup.selectAll<SVGGElement, EventData>(".event"),
+      this.drag,
+    );
+    this.applyDrag(
+      this.labelGroup.selectAll<SVGTextElement, TimelineData>(
+        ".d3-timeline-label",
+      ),
+      this.labelDrag,
+    );
+  }
+
+  /**
+   * 撤销上一次数据变化
+   * @returns {boolean} 是否执行了撤销
+   */
+  public undo(): boolean {
+    const entry = this.undoStack.pop();
+    if (!entry) return false;
+    this.redoStack.push(entry);
+    this.restoreSnapshot(entry.before, "undo");
+    return true;
+  }
+
+  /**
+   * 重做上一次被撤销的数据变化
+   * @returns {boolean} 是否执行了重做
+   */
+  public redo(): boolean {
+    const entry = this.redoStack.pop();
+    if (!entry) return false;
+    this.undoStack.push(entry);
+    this.restoreSnapshot(entry.after, "redo");
+    return true;
+  }
+
+  /**
+   * 清空撤销/重做历史
+   */
+  public clearHistory(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.emitHistoryChange();
+  }
+
+  /**
+   * 获取当前选中的事件
+   * @returns {EventData[]} 选中的事件数组
+   */
+  public getSelection(): EventData[] {
+    return this.events.filter((e) => this.selectedEventIds.has(e.id));
+  }
+
+  /**
+   * 设置选中的事件
+   * @param {ID[]} ids 要选中的事件ID数组
+   */
+  public setSelection(ids: ID[]): void {
+    const existing = new Set(this.events.map((e) => e.id));
+    this.updateSelection(new Set(ids.filter((id) => existing.has(id))));
+  }
+
+  /**
+   * 清空选择
+   */
+  public clearSelection(): void {
+    this.updateSelection(new Set());
+  }
+
+  /**
+   * 切换主题，只更新样式和画布，不重建图表
+   * @param {Theme} theme 内置主题名称或部分设计令牌
+   */
+  public setTheme(theme: Theme): void {
+    this.options.theme = theme;
+    this.themeTokens = resolveTheme(theme);
+    this.applyThemeProperties(this.container);
+    if (this.tooltip) this.applyThemeProperties(this.tooltip);
+    // 事件文字的对比色和画布内容依赖令牌的取值，需要重新计算
+    this.render(true);
+  }
+
+  /**
+   * 获取当前主题的设计令牌
+   * @returns {ThemeTokens} 设计令牌
+   */
+  public getTheme(): ThemeTokens {
+    return { ...this.themeTokens };
+  }
+
+  /**
+   * 更新坐标轴配置
+   * @param {AxisOptions} axis 坐标轴配置
+   */
+  public setAxis(axis: AxisOptions): void {
+    this.options.axis = { ...axis };
+    // 刻度层的类型可能改变，重新创建
+    this.axisGroup.selectAll("*").remove();
+    this.updateDimensions();
+    this.render(true);
+  }
+
+  /**
+   * 切换时区
+   * @param {string} timeZone 'local'、'UTC' 或 IANA 时区名称
+   */
+  public setTimeZone(timeZone: string): void {
+    this.checkTimeZone(timeZone);
+    this.options.timeZone = timeZone;
+    this.setupScales();
+    this.setupTickFormat();
+    // 重新渲染刻度、网格线和时间文字
+    this.render(true);
+    if (this.tooltipData) {
+      this.openTooltip(this.tooltipData);
+    }
+  }
+
   /**
    * 切换语言
    * @param {Locale} locale 语言编码：ISO639_1
    */
   public changeLocale(locale: Locale) {
     this.options.locale = locale;
-    d3.timeFormatDefaultLocale(TimeLocaleDefinitions[locale]);
-    this.setupScales();
-    // 如果做了变换，则需要重新渲染轴
-    if (this.lastTransform) {
-      // 构造一个微小的偏移
-      const transform = new d3.ZoomTransform(
-        this.lastTransform.k,
-        this.lastTransform.x + 1,
-        this.lastTransform.y,
-      );
-      this.renderAxis(transform.rescaleX(this.xScale));
-      // 再偏移回来
-      this.renderAxis(this.lastTransform.rescaleX(this.xScale));
+    this.setupLocales();
+    // 重新渲染坐标轴刻度、无障碍标签、聚合/溢出标记和正在显示的工具提示
+    this.svg.attr("aria-label", this.getMessages().chartLabel);
+    this.render(true);
+    if (this.tooltipData) {
+      this.openTooltip(this.tooltipData);
     }
   }
 
@@ -836,31 +3068,105 @@ export class D3Timeline {
    * @returns {void}
    */
   public render(force = false): void {
+    const xScale = this.getCurrentXScale();
+    // 移除已被删除的事件的选中状态
+    const existing = new Set(this.events.map((e) => e.id));
+    if ([...this.selectedEventIds].some((id) => !existing.has(id))) {
+      this.updateSelection(
+        new Set([...this.selectedEventIds].filter((id) => existing.has(id))),
+      );
+    }
+    // 子行布局改变了时间线高度时，需要同步更新画布高度并完全重绘
+    if (this.layoutLanes()) {
+      this.updateDimensions();
+      force = true;
+    }
     // 检查是否需要完全重新渲染
     const timelineCount = this.timelineGroup.selectAll(".d3-timeline").size();
-    const eventCount = this.eventGroup.selectAll(".event").size();
 
-    if (
-      timelineCount !== this.timelines.length ||
-      eventCount !== this.events.length ||
+    if (this.isCanvasRenderer()) {
+      // 画布模式下只有标签和聚合标记使用SVG
+      this.renderTimelineLabels();
+      this.renderClusters(xScale);
+      this.drawCanvas(xScale);
+    } else if (
+      timelineCount !== this.visibleTimelines.length ||
+      this.isEventJoinStale(xScale) ||
       force
     ) {
       this.renderTimelines();
       this.renderEvents();
       this.renderStageLines();
+      this.renderClusters(xScale);
     } else {
       // 只需要更新位置
       this.updateTimelinePositions();
-      this.updateEventPositions(this.xScale);
+      this.renderRollups(xScale);
+      this.updateEventPositions(xScale);
+      this.updateStageLinePositions(xScale);
+      this.updateClusterPositions(xScale);
     }
-    this.renderGrid(this.xScale);
-    this.renderAxis(this.xScale);
+    this.renderGrid(xScale);
+    this.renderTimeRegions(xScale);
+    this.renderAxis(xScale);
+    this.renderMarkers(xScale);
+  }
+
+  /**
+   * 获取需要渲染的事件，开启视口裁剪时只返回与可见范围（含缓冲区）相交的事件
+   * @param xScale - 当前比例尺
+   */
+  private getRenderableEvents(
+    xScale: d3.ScaleTime<number, number>,
+  ): EventData[] {
+    if (!this.options.viewportCulling) return this.events;
+    const { start, end } = this.calculateCullingWindow(xScale);
+    return this.events.filter(
+      (e) =>
+        (this.getEventEnd(e) >= start &&
+          this.getEventStart(e, xScale) <= end) ||
+        e === this.dragState?.origin,
+    );
+  }
+
+  private calculateCullingWindow(
+    xScale: d3.ScaleTime<number, number>,
+  ): TimeRange {
+    const [start, end] = xScale.domain();
+    const buffer =
+      (end.getTime() - start.getTime()) * this.options.cullingBuffer;
+    return {
+      start: new Date(start.getTime() - buffer),
+      end: new Date(end.getTime() + buffer),
+    };
+  }
+
+  // 已渲染的事件与当前应渲染的事件不一致时需要重新绑定数据
+  private isEventJoinStale(xScale: d3.ScaleTime<number, number>): boolean {
+    const bound = new Set(
+      this.eventGroup.selectAll<SVGGElement, EventData>(".event").data(),
+    );
+    const renderable = this.getRenderableEvents(xScale);
+    return (
+      bound.size !== renderable.length || renderable.some((e) => !bound.has(e))
+    );
+  }
+
+  // 可见范围移出已渲染的时间窗口时需要重新裁剪
+  private isCullingWindowExceeded(
+    xScale: d3.ScaleTime<number, number>,
+  ): boolean {
+    if (!this.options.viewportCulling) return false;
+    if (!this.renderedWindow) return true;
+    const [start, end] = xScale.domain();
+    return start < this.renderedWindow.start || end > this.renderedWindow.end;
   }
 
   private renderGrid(xScale: d3.ScaleTime<number, number>): void {
     this.gridGroup.selectAll("*").remove();
 
-    const gridLines = this.xScale.ticks(20);
+    const gridLines = this.getTicks(this.xScale, 20);
+    const top = this.getLanesTop();
 
     this.gridGroup
       .selectAll(".vertical-grid")
@@ -869,45 +3175,281 @@ export class D3Timeline {
       .append("line")
       .attr("class", "vertical-grid")
       .attr("x1", (d) => xScale(d))
-      .attr("y1", this.options.margin.top)
+      .attr("y1", top)
       .attr("x2", (d) => xScale(d))
-      .attr(
-        "y2",
-        this.options.height -
-          this.options.margin.bottom -
-          this.options.axisHeight,
-      )
+      .attr("y2", top + this.getTimelineInnerHeight(true))
       .attr("class", "d3-grid");
   }
 
-  private renderTimelines(): void {
-    const timelineSelection = this.timelineGroup
-      .selectAll<SVGGElement, TimelineData>(".d3-timeline")
-      .data(this.timelines, (d) => d.id.toString());
+  /**
+   * 渲染可见范围内的时间区域，重复规则只展开可见的部分
+   * @param xScale - 当前比例尺
+   */
+  private renderTimeRegions(xScale: d3.ScaleTime<number, number>): void {
+    const [start, end] = xScale.domain();
+    const [left, right] = xScale.range();
+    const top = this.getLanesTop();
+    const height = this.getTimelineInnerHeight(true);
+    const items: TimeRegionItem[] = [];
+
+    this.timeRegions.forEach((region) => {
+      // 指定了时间线的区域按时间线所在的行绘制
+      const bands: [ID, number, number][] = region.timelineIds
+        ? this.visibleTimelines
+            .filter((t) => region.timelineIds!.includes(t.id))
+            .map((t) => [
+              t.id,
+              this.calculateTimelineOffsetY(t),
+              this.getTimelineHeight(t),
+            ])
+        : [["all", top, height]];
+      if (bands.length === 0) return;
+
+      this.expandTimeRegion(region, start, end, right - left).forEach(
+        (range) => {
+          bands.forEach(([laneId, y, h]) => {
+            items.push({
+              key: `${region.id}:${laneId}:${range.start.getTime()}`,
+              region,
+              range,
+              y,
+              height: h,
+            });
+          });
+        },
+      );
+    });
 
-    const timelineEnter = timelineSelection
+    const regionSelection = this.regionGroup
+      .selectAll<SVGGElement, TimeRegionItem>(".d3-time-region")
+      .data(items, (d) => d.key);
+
+    const regionEnter = regionSelection
       .enter()
       .append("g")
-      .attr("class", "d3-timeline");
+      .attr("class", "d3-time-region");
+    regionEnter.append("rect").attr("class", "d3-time-region-range");
+    regionEnter
+      .append("text")
+      .attr("class", "d3-time-region-label")
+      .attr("transform", this.getContentTransform())
+      .attr("dominant-baseline", "hanging");
+
+    const regionUpdate = regionEnter.merge(regionSelection);
+    regionUpdate
+      .select(".d3-time-region-range")
+      .attr("x", (d) => xScale(d.range.start))
+      .attr("y", (d) => d.y)
+      .attr("width", (d) =>
+        Math.max(0, xScale(d.range.end) - xScale(d.range.start)),
+      )
+      .attr("height", (d) => d.height)
+      .attr("fill", (d) => d.region.color)
+      .attr("fill-opacity", (d) => d.region.opacity ?? 0.15);
+    regionUpdate
+      .select(".d3-time-region-label")
+      .attr(
+        this.textAttr("x"),
+        (d) => Math.max(xScale(d.range.start), left) + 4,
+      )
+      .attr(this.textAttr("y"), (d) => d.y + 4)
+      .style("fill", (d) => d.region.color)
+      .text((d) => d.region.label ?? "");
 
-    // 时间线背景
-    timelineEnter
-      .append("rect")
-      .attr("class", "d3-timeline-bg")
-      .attr("x", this.options.margin.left)
-      .attr("width", this.getTimelineInnerWidth())
-      .attr("height", this.options.timelineHeight)
-      .attr("filter", `url(#drop-shadow-${this.options.id})`);
+    regionSelection.exit().remove();
+  }
 
-    // 时间线主体
-    timelineEnter
-      .append("line")
-      .attr("class", "d3-timeline-line")
-      .attr("x1", this.options.margin.left)
-      .attr("x2", this.options.margin.left + this.getTimelineInnerWidth()); // 确保x2动态计算
+  /**
+   * 渲染标记线及其位于坐标轴区域的标签
+   * @param xScale - 当前比例尺
+   */
+  private renderMarkers(xScale: d3.ScaleTime<number, number>): void {
+    const markers = this.nowMarker
+      ? [...this.markers, this.nowMarker]
+      : this.markers;
+    const [start, end] = xScale.domain();
+    const top = this.getLanesTop();
+    const bottom = top + this.getTimelineInnerHeight(true);
+    const color = (d: MarkerData) => d.color ?? "var(--d3-timeline-marker)";
+
+    const markerSelection = this.markerGroup
+      .selectAll<SVGGElement, MarkerData>(".d3-marker")
+      .data(markers, (d) => this.getMarkerKey(d));
+
+    const markerEnter = markerSelection
+      .enter()
+      .append("g")
+      .attr("class", "d3-marker");
+    markerEnter.append("line").attr("class", "d3-marker-line");
+    // 加宽的透明线条，便于点击和拖拽
+    markerEnter.append("line").attr("class", "d3-marker-hit");
+
+    const markerUpdate = markerEnter
+      .merge(markerSelection)
+      .classed("d3-marker-draggable", (d) => !!d.draggable)
+      .attr("transform", (d) => `translate(${xScale(d.time)}, 0)`)
+      .call(this.markerDrag);
+    markerUpdate
+      .select(".d3-marker-line")
+      .attr("y1", top)
+      .attr("y2", bottom)
+      .style("stroke", color)
+      .attr("stroke-dasharray", (d) => (d.dash ? "6,4" : null));
+    markerUpdate.select(".d3-marker-hit").attr("y1", top).attr("y2", bottom);
+
+    markerSelection.exit().remove();
+
+    // 标签位于坐标轴区域中与时间线相邻的标签区域，不与刻度标签重叠
+    const labelY =
+      this.isAxisOnTop() || this.isVertical()
+        ? top - this.markerBandHeight / 2
+        : bottom + this.markerBandHeight / 2;
+    const labelSelection = this.markerLabelGroup
+      .selectAll<SVGTextElement, MarkerData>(".d3-marker-label")
+      .data(
+        markers.filter((d) => this.getMarkerLabel(d)),
+        (d) => this.getMarkerKey(d),
+      );
 
-    // 更新所有时间线
-    const timelineUpdate = timelineEnter.merge(timelineSelection);
+    labelSelection
+      .enter()
+      .append("text")
+      .attr("class", "d3-marker-label")
+      .attr("transform", this.getContentTransform())
+      .attr("text-anchor", "middle")
+      .attr("dominant-baseline", "middle")
+      .merge(labelSelection)
+      .attr(this.textAttr("x"), (d) => xScale(d.time))
+      .attr(this.textAttr("y"), labelY)
+      .style("fill", color)
+      .style("display", (d) => (d.time < start || d.time > end ? "none" : null))
+      .text((d) => this.getMarkerLabel(d)!);
+
+    labelSelection.exit().remove();
+  }
+
+  // 当前时间标记单独作为数据键，不与ID为 now 的标记线冲突
+  private getMarkerKey(marker: MarkerData): string {
+    return marker === this.nowMarker ? "now" : `marker-${marker.id}`;
+  }
+
+  // 标记线改变后更新，标签区域出现或消失时需要重新布局
+  private refreshMarkers(): void {
+    if (this.getMarkerBandHeight() !== this.markerBandHeight) {
+      this.render();
+    } else {
+      this.renderMarkers(this.getCurrentXScale());
+    }
+  }
+
+  private getMarkerLabel(marker: MarkerData): string | undefined {
+    if (marker === this.nowMarker) {
+      return marker.label ?? this.getMessages().now;
+    }
+    return marker.label;
+  }
+
+  /**
+   * 将时间区域展开为与可见范围相交的时间段
+   * @param region - 时间区域
+   * @param start - 可见范围的开始时间
+   * @param end - 可见范围的结束时间
+   * @param width - 可见范围的像素宽度，每天不足1像素时不展开重复规则
+   */
+  private expandTimeRegion(
+    region: TimeRegion,
+    start: Date,
+    end: Date,
+    width: number,
+  ): TimeRange[] {
+    const { recurrence } = region;
+    if (!recurrence) {
+      return region.start! < end && region.end! > start
+        ? [{ start: region.start!, end: region.end! }]
+        : [];
+    }
+
+    // 在配置时区的墙上时间中按天展开，多取前一天以包含跨越午夜的时间段
+    const local = this.options.timeZone === "local";
+    const day = local ? d3.timeDay : d3.utcDay;
+    const wallStart = day.offset(day.floor(this.toWallTime(start)), -1);
+    const wallEnd = this.toWallTime(end);
+    if ((wallEnd.getTime() - wallStart.getTime()) / 864e5 > width) return [];
+
+    const toInstant = (wall: Date) =>
+      this.isZonedTime() ? fromZonedTime(wall, this.options.timeZone) : wall;
+    // 设置墙上时间的时分，本地时区使用 setHours 以正确处理夏令时
+    const atTime = (date: Date, time: string) => {
+      const [hours, minutes] = time.split(":").map(Number);
+      const result = new Date(date);
+      if (local) {
+        result.setHours(hours, minutes || 0, 0, 0);
+      } else {
+        result.setUTCHours(hours, minutes || 0, 0, 0);
+      }
+      return result;
+    };
+
+    const ranges: TimeRange[] = [];
+    day.range(wallStart, wallEnd).forEach((date) => {
+      let range: [Date, Date] | undefined;
+      if (recurrence.type === "weekly") {
+        const weekday = local ? date.getDay() : date.getUTCDay();
+        if (recurrence.days.includes(weekday)) {
+          range = [date, day.offset(date, 1)];
+        }
+      } else {
+        const from = atTime(date, recurrence.from);
+        let to = atTime(date, recurrence.to);
+        if (to <= from) to = atTime(day.offset(date, 1), recurrence.to);
+        range = [from, to];
+      }
+      if (!range) return;
+      const rangeStart = toInstant(range[0]);
+      const rangeEnd = toInstant(range[1]);
+      if (rangeStart >= end || rangeEnd <= start) return;
+      // 合并相邻的时间段（例如周六和周日）
+      const last = ranges[ranges.length - 1];
+      if (last && last.end.getTime() >= rangeStart.getTime()) {
+        last.end = rangeEnd;
+      } else {
+        ranges.push({ start: rangeStart, end: rangeEnd });
+      }
+    });
+    return ranges;
+  }
+
+  private renderTimelines(): void {
+    const timelineSelection = this.timelineGroup
+      .selectAll<SVGGElement, TimelineData>(".d3-timeline")
+      .data(this.visibleTimelines, (d) => d.id.toString());
+
+    const timelineEnter = timelineSelection
+      .enter()
+      .append("g")
+      .attr("class", "d3-timeline");
+
+    // 时间线背景
+    timelineEnter
+      .append("rect")
+      .attr("class", "d3-timeline-bg")
+      .attr("x", this.getLayoutFrame().margin.left)
+      .attr("width", this.getTimelineInnerWidth())
+      .attr("height", (d) => this.getTimelineHeight(d))
+      .attr("filter", `url(#drop-shadow-${this.options.id})`);
+
+    // 时间线主体
+    timelineEnter
+      .append("line")
+      .attr("class", "d3-timeline-line")
+      .attr("x1", this.getLayoutFrame().margin.left)
+      .attr(
+        "x2",
+        this.getLayoutFrame().margin.left + this.getTimelineInnerWidth(),
+      ); // 确保x2动态计算
+
+    // 更新所有时间线
+    const timelineUpdate = timelineEnter.merge(timelineSelection);
 
     timelineUpdate
       .transition()
@@ -917,13 +3459,26 @@ export class D3Timeline {
         (d) => `translate(0, ${this.calculateTimelineOffsetY(d)})`,
       );
 
-    timelineUpdate.select(".d3-timeline-bg").attr("y", 0);
+    timelineUpdate
+      .select(".d3-timeline-bg")
+      .attr("y", 0)
+      .attr("fill", (d) => this.getTimelineBackground(d))
+      .style("opacity", (d) => (d.background ? 1 : null))
+      .transition()
+      .duration(this.options.animationDuration)
+      .attr("height", (d) => this.getTimelineHeight(d));
 
     timelineUpdate
       .select(".d3-timeline-line")
-      .attr("y1", this.options.timelineHeight / 2)
-      .attr("y2", this.options.timelineHeight / 2)
-      .attr("stroke", (d) => d.color);
+      .attr("y1", (d) => this.getLaneCenterY(d))
+      .attr("y2", (d) => this.getLaneCenterY(d))
+      .attr("stroke", (d) => d.color)
+      .attr("stroke-dasharray", (d) =>
+        d.lineStyle === "dashed" ? "8,6" : null,
+      )
+      .style("display", (d) => (d.lineStyle === "hidden" ? "none" : null));
+
+    this.renderRollups(this.getCurrentXScale());
 
     // 移除旧时间线
     timelineSelection
@@ -936,35 +3491,116 @@ export class D3Timeline {
     this.renderTimelineLabels();
   }
 
+  /**
+   * 渲染折叠分组的汇总行：子孙时间线的事件合并后的时间范围
+   * @param xScale - 当前比例尺
+   */
+  private renderRollups(xScale: d3.ScaleTime<number, number>): void {
+    const timelines = this.timelineGroup.selectAll<SVGGElement, TimelineData>(
+      ".d3-timeline",
+    );
+    timelines
+      .selectAll(".d3-timeline-rollup")
+      .data((d) => [d])
+      .join((enter) => enter.append("g").attr("class", "d3-timeline-rollup"))
+      .selectAll<SVGRectElement, TimeRange>("rect")
+      .data((d) => this.laneLayouts.get(d.id)?.rollup ?? [])
+      .join("rect")
+      .attr("class", "d3-timeline-rollup-range")
+      .attr("y", 0)
+      .attr("height", 14)
+      .attr("x", (d) => this.calculateRollupBounds(d, xScale)[0])
+      .attr("width", (d) => {
+        const [x0, x1] = this.calculateRollupBounds(d, xScale);
+        return x1 - x0;
+      });
+
+    timelines
+      .select(".d3-timeline-rollup")
+      .attr("transform", (d) => `translate(0, ${this.getLaneCenterY(d) - 7})`)
+      .attr("fill", (d) => d.color);
+  }
+
+  // 时间线背景，未设置时使用渐变
+  private getTimelineBackground(timeline: TimelineData): string {
+    return timeline.background ?? `url(#timelineGradient-${this.options.id})`;
+  }
+
+  // 汇总范围的横向边界，时间点合并的范围保留最小宽度
+  private calculateRollupBounds(
+    range: TimeRange,
+    xScale: d3.ScaleTime<number, number>,
+  ): [number, number] {
+    const x0 = xScale(range.start);
+    return [x0, Math.max(x0 + 4, xScale(range.end))];
+  }
+
+  /**
+   * 计算时间线标签的位置：横向模式位于时间线左侧，纵向模式位于时间线列的上方，
+   * 子时间线的标签按层级缩进
+   * @param timeline - 时间线
+   * @param offset - 远离时间线主线方向的额外偏移
+   */
+  private calculateLabelPosition(
+    timeline: TimelineData,
+    offset = 0,
+  ): [number, number] {
+    const { margin } = this.options;
+    const center =
+      this.calculateTimelineOffsetY(timeline) + this.getLaneCenterY(timeline);
+    const indent = this.getTimelineDepth(timeline) * D3Timeline.TREE_INDENT;
+    return this.isVertical()
+      ? [center, margin.top - 10 - indent - offset]
+      : [margin.left - 10 - indent, center + offset];
+  }
+
   private renderTimelineLabels(): void {
     const labelSelection = this.labelGroup
       .selectAll<SVGTextElement, TimelineData>(".d3-timeline-label")
-      .data(this.timelines, (d) => d.id.toString());
+      .data(this.visibleTimelines, (d) => d.id.toString());
 
     // 进入新标签
     const labelEnter = labelSelection
       .enter()
       .append("text")
       .attr("class", "d3-timeline-label")
-      .attr("x", this.options.margin.left - 10)
-      .attr("text-anchor", "end")
-      .attr("dominant-baseline", "middle")
-      .attr("fill", "#333")
+      .attr("text-anchor", this.isVertical() ? "middle" : "end")
+      .attr("dominant-baseline", this.isVertical() ? "auto" : "middle")
       .attr("font-size", "14")
-      .attr("font-weight", "bold");
+      .attr("font-weight", "bold")
+      .attr("role", "button")
+      .attr("tabindex", 0);
+
+    // 分组的展开/折叠按钮
+    labelEnter.append("tspan").attr("class", "d3-timeline-toggle");
+    labelEnter.append("tspan").attr("class", "d3-timeline-name");
 
     // 更新所有标签
     const labelUpdate = labelEnter.merge(labelSelection);
 
+    labelUpdate
+      .attr("aria-label", (d) => d.name)
+      .attr("aria-level", (d) => this.getTimelineDepth(d) + 1)
+      .attr("aria-expanded", (d) =>
+        this.hasChildTimelines(d)
+          ? String(!this.collapsedTimelineIds.has(d.id))
+          : null,
+      )
+      .call((selection) => this.applyDrag(selection, this.labelDrag));
+
+    labelUpdate.select(".d3-timeline-toggle").text((d) => {
+      if (!this.hasChildTimelines(d)) return "";
+      return this.collapsedTimelineIds.has(d.id) ? "▸ " : "▾ ";
+    });
+    labelUpdate.select(".d3-timeline-name").text((d) => d.name);
+    // 内联样式优先于样式表中的主题颜色
+    labelUpdate.style("fill", (d) => d.labelColor ?? null);
+
     labelUpdate
       .transition()
       .duration(this.options.animationDuration)
-      .attr(
-        "y",
-        (d) =>
-          this.calculateTimelineOffsetY(d) + this.options.timelineHeight / 2,
-      )
-      .text((d) => d.name);
+      .attr("x", (d) => this.calculateLabelPosition(d)[0])
+      .attr("y", (d) => this.calculateLabelPosition(d)[1]);
 
     // 移除旧标签
     labelSelection
@@ -973,36 +3609,91 @@ export class D3Timeline {
       .duration(this.options.animationDuration)
       .style("opacity", 0)
       .remove();
+
+    this.renderOverflowIndicators();
+  }
+
+  // 超出最大子行数时，在标签下方显示被折叠的事件数量
+  private renderOverflowIndicators(): void {
+    const overflowed = this.visibleTimelines.filter(
+      (t) => (this.laneLayouts.get(t.id)?.overflow.size ?? 0) > 0,
+    );
+
+    const indicatorSelection = this.labelGroup
+      .selectAll<SVGTextElement, TimelineData>(".d3-timeline-overflow")
+      .data(overflowed, (d) => d.id.toString());
+
+    const indicatorEnter = indicatorSelection
+      .enter()
+      .append("text")
+      .attr("class", "d3-timeline-overflow")
+      .attr("text-anchor", this.isVertical() ? "middle" : "end")
+      .attr("dominant-baseline", this.isVertical() ? "auto" : "middle");
+
+    const indicatorUpdate = indicatorEnter.merge(indicatorSelection);
+
+    indicatorUpdate
+      .attr("x", (d) => this.calculateLabelPosition(d, 18)[0])
+      .attr("y", (d) => this.calculateLabelPosition(d, 18)[1])
+      .attr("aria-label", (d) =>
+        formatMessage(this.getMessages().overflowCount, {
+          count: this.laneLayouts.get(d.id)!.overflow.size,
+        }),
+      )
+      .text((d) => `+${this.laneLayouts.get(d.id)!.overflow.size}`)
+      // text() 会清空子节点，因此每次重新追加 title
+      .append("title")
+      .text((d) =>
+        Array.from(this.laneLayouts.get(d.id)!.overflow, (e) => e.title).join(
+          "\n",
+        ),
+      );
+
+    indicatorSelection.exit().remove();
   }
 
   private handleZoom(event: d3.D3ZoomEvent<SVGSVGElement, unknown>): void {
     const { transform } = event;
+    this.lastTransform = transform;
 
-    const xScaleR = transform.rescaleX(this.xScale);
+    const xScaleR = this.rescale(transform);
 
-    // 只更新需要重新定位的元素，不重新创建
-    this.updateTimelinePositions();
-    this.updateEventPositions(xScaleR);
+    // 缩放过程中只移动聚合标记，缩放结束后再重新聚合
+    this.updateClusterPositions(xScaleR);
 
-    // 更新阶段线位置
-    this.updateStageLinePositions(xScaleR);
+    if (this.isCanvasRenderer()) {
+      this.drawCanvas(xScaleR);
+    } else {
+      // 只更新需要重新定位的元素，不重新创建
+      this.updateTimelinePositions();
+      this.renderRollups(xScaleR);
+      if (this.isCullingWindowExceeded(xScaleR)) {
+        this.renderEvents(false);
+      }
+      this.updateEventPositions(xScaleR);
 
-    // 更新timeline背景宽度和线条长度
-    const timelineWidth = this.getTimelineInnerWidth();
-    this.timelineGroup
-      .selectAll<SVGRectElement, TimelineData>(".d3-timeline-bg")
-      .attr("width", timelineWidth)
-      .attr("fill", `url(#timelineGradient-${this.options.id})`);
+      // 更新阶段线位置
+      this.updateStageLinePositions(xScaleR);
 
-    this.timelineGroup
-      .selectAll<SVGLineElement, TimelineData>(".d3-timeline-line")
-      .attr("x2", this.options.margin.left + timelineWidth);
+      // 更新timeline背景宽度和线条长度
+      const timelineWidth = this.getTimelineInnerWidth();
+      this.timelineGroup
+        .selectAll<SVGRectElement, TimelineData>(".d3-timeline-bg")
+        .attr("width", timelineWidth)
+        .attr("fill", (d) => this.getTimelineBackground(d));
+
+      this.timelineGroup
+        .selectAll<SVGLineElement, TimelineData>(".d3-timeline-line")
+        .attr("x2", this.getLayoutFrame().margin.left + timelineWidth);
+    }
 
     // 重新渲染轴以更新刻度和格式
     this.renderAxis(xScaleR);
     this.renderGrid(xScaleR);
+    this.renderTimeRegions(xScaleR);
+    this.renderMarkers(xScaleR);
+    this.updatePinnedTooltip();
 
-    this.lastTransform = transform;
     const [start, end] = xScaleR.domain();
     this.timeRange = {
       start,
@@ -1012,129 +3703,1005 @@ export class D3Timeline {
 
   private handleZoomEnd(event: d3.D3ZoomEvent<SVGSVGElement, unknown>): void {
     const { transform } = event;
-    const xScaleR = transform.rescaleX(this.xScale);
+    const xScaleR = this.rescale(transform);
     const [start, end] = xScaleR.domain();
     this.timeRange = {
       start,
       end,
     };
+    if (this.options.viewportCulling && !this.isCanvasRenderer()) {
+      // 缩放结束后以新的可见范围为中心重新裁剪
+      this.renderEvents(false);
+    }
+    this.renderClusters(xScaleR);
+    if (this.isCanvasRenderer()) {
+      this.drawCanvas(xScaleR);
+    }
+
+    const format = this.formatTime("%x");
+    this.announce(
+      formatMessage(this.getMessages().visibleRange, {
+        start: format(start),
+        end: format(end),
+      }),
+    );
+  }
+
+  /**
+   * 将同一时间线上距离过近的点事件合并为聚合
+   * @param xScale - 当前比例尺
+   */
+  private computeClusters(
+    xScale: d3.ScaleTime<number, number>,
+  ): EventCluster[] {
+    const distance = this.options.clusterDistance;
+    // 已放大到最大比例时无法再通过缩放分开事件，不再聚合
+    if (distance <= 0 || this.isAtMaxZoom()) return [];
+
+    const clusters: EventCluster[] = [];
+    this.visibleTimelines.forEach((timeline) => {
+      const points = this.events
+        .filter(
+          (e) =>
+            e.timelineId === timeline.id &&
+            e.type === "point" &&
+            !this.isEventOverflowed(e),
+        )
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+      let current: EventData[] = [];
+      const flush = () => {
+        if (current.length > 1) {
+          clusters.push({
+            id: `${timeline.id}-${current[0].id}`,
+            timelineId: timeline.id,
+            events: current,
+            timeRange: {
+              start: current[0].startTime,
+              end: current[current.length - 1].startTime,
+            },
+          });
+        }
+        current = [];
+      };
+      points.forEach((event) => {
+        const last = current[current.length - 1];
+        if (
+          last &&
+          xScale(event.startTime) - xScale(last.startTime) >= distance
+        ) {
+          flush();
+        }
+        current.push(event);
+      });
+      flush();
+    });
+    return clusters;
+  }
+
+  private calculateClusterX(
+    cluster: EventCluster,
+    xScale: d3.ScaleTime<number, number>,
+  ): number {
+    return (
+      (xScale(cluster.timeRange.start) + xScale(cluster.timeRange.end)) / 2
+    );
   }
 
-  private renderEvents(): void {
+  private renderClusters(xScale: d3.ScaleTime<number, number>): void {
+    const clusters = this.computeClusters(xScale);
+    this.clusteredEventIds = new Set(
+      clusters.flatMap((c) => c.events.map((e) => e.id)),
+    );
+
+    this.eventGroup
+      .selectAll<SVGGElement, EventData>(".event")
+      .style("display", (d) => (this.isEventHidden(d) ? "none" : null));
+
+    const clusterSelection = this.clusterGroup
+      .selectAll<SVGGElement, EventCluster>(".d3-cluster")
+      .data(clusters, (d) => d.id);
+
+    const clusterEnter = clusterSelection
+      .enter()
+      .append("g")
+      .attr("class", "d3-cluster")
+      .attr("role", "img");
+
+    clusterEnter
+      .append("circle")
+      .attr("class", "d3-cluster-badge")
+      .attr("r", 12)
+      .attr("stroke-width", 2)
+      .attr("filter", `url(#drop-shadow-${this.options.id})`);
+
+    clusterEnter
+      .append("text")
+      .attr("class", "d3-cluster-count")
+      .attr("transform", this.getContentTransform())
+      .attr("text-anchor", "middle")
+      .attr("dominant-baseline", "central");
+
+    const clusterUpdate = clusterEnter.merge(clusterSelection);
+
+    clusterUpdate
+      .select(".d3-cluster-badge")
+      .attr("fill", (d) => d.events[0].color);
+
+    clusterUpdate.attr("aria-label", (d) =>
+      formatMessage(this.getMessages().clusterCount, {
+        count: d.events.length,
+      }),
+    );
+
+    clusterUpdate
+      .select(".d3-cluster-count")
+      .style("fill", (d) => this.getEventTextColor(d.events[0]))
+      .text((d) => d.events.length);
+
+    clusterSelection.exit().remove();
+
+    this.updateClusterPositions(xScale);
+  }
+
+  private updateClusterPositions(xScale: d3.ScaleTime<number, number>): void {
+    this.clusterGroup
+      .selectAll<SVGGElement, EventCluster>(".d3-cluster")
+      .attr(
+        "transform",
+        (d) =>
+          `translate(${this.calculateClusterX(d, xScale)}, ${this.calculateEventOffsetY(d.events[0])})`,
+      );
+  }
+
+  // 是否已放大到最大缩放比例
+  private isAtMaxZoom(): boolean {
+    return (this.lastTransform?.k ?? 1) >= this.zoom.scaleExtent()[1];
+  }
+
+  // 点击聚合标记时放大到其时间范围，最大比例下聚合会自动展开
+  private async handleClusterClick(cluster: EventCluster) {
+    if (this.isAtMaxZoom()) return;
+    this.emit("cluster.click", {
+      data: [...cluster.events],
+      timeRange: { ...cluster.timeRange },
+    });
+    try {
+      await this.translateTo(cluster.timeRange);
+      await this.scaleTo(cluster.timeRange);
+    } catch (e: any) {
+      this.logger.warn("Caught cluster zoom error: " + String(e));
+    }
+  }
+
+  /**
+   * 渲染事件
+   * @param animate - 是否使用过渡动画，缩放过程中的重新裁剪不需要动画
+   */
+  private renderEvents(animate = true): void {
+    const xScale = this.getCurrentXScale();
+    if (this.options.viewportCulling) {
+      this.renderedWindow = this.calculateCullingWindow(xScale);
+    }
     const eventSelection = this.eventGroup
       .selectAll<SVGGElement, EventData>(".event")
-      .data(this.events, (d) => d.id.toString());
+      // 事件类型、形状或渲染器改变时子元素结构不同，需要重新创建元素
+      .data(this.getRenderableEvents(xScale), (d) => {
+        const version = this.eventRendererVersions.get(d.shape ?? "") ?? 0;
+        return `${d.id}:${d.type}:${d.shape ?? ""}:${version}`;
+      });
 
     // 进入新事件
     const eventEnter = eventSelection
       .enter()
       .append("g")
-      .attr("class", "event");
+      .attr("class", "event")
+      .attr("role", "button")
+      .attr("tabindex", -1);
 
     // 范围事件
-    const rangeEvents = eventEnter.filter((d) => d.type === "range");
+    const rangeEvents = eventEnter.filter(
+      (d) => d.type === "range" && !this.getEventRenderer(d),
+    );
 
     rangeEvents
       .append("rect")
       .attr("class", "d3-event-range")
-      .attr("height", 30)
-      .attr("y", -15)
+      .attr("fill", (d) => d.color)
       .attr("rx", 6)
       .attr("filter", `url(#drop-shadow-${this.options.id})`);
 
+    // 状态图案和进度条叠加在事件矩形之上
+    rangeEvents.append("rect").attr("class", "d3-event-status").attr("rx", 6);
+    rangeEvents.append("rect").attr("class", "d3-event-progress").attr("rx", 6);
+
+    // 进行中事件末端的箭头
+    rangeEvents.append("path").attr("class", "d3-event-cap");
+
+    // 编辑模式下用于调整开始/结束时间的边缘手柄
+    rangeEvents
+      .selectAll("rect.d3-event-handle")
+      .data((d) => [
+        { edge: "start", d },
+        { edge: "end", d },
+      ])
+      .enter()
+      .append("rect")
+      .attr("class", (h) => `d3-event-handle d3-event-handle-${h.edge}`)
+      .attr("data-edge", (h) => h.edge)
+      .attr("x", -D3Timeline.HANDLE_WIDTH / 2)
+      .attr("width", D3Timeline.HANDLE_WIDTH);
+
+    // 编辑模式下用于调整进度的手柄，位于事件底部以免遮挡结束边缘手柄
+    rangeEvents
+      .append("rect")
+      .attr("class", "d3-event-progress-handle")
+      .attr("width", D3Timeline.HANDLE_WIDTH);
+
     rangeEvents
       .append("text")
       .attr("class", "d3-event-text")
+      .attr("transform", this.getContentTransform())
       .attr("text-anchor", "middle")
       .attr("dominant-baseline", "middle")
-      .attr("fill", "white")
-      .attr("y", 0);
+      .attr(this.textAttr("y"), 0);
 
     // 点事件
-    const pointEvents = eventEnter.filter((d) => d.type === "point");
+    const pointEvents = eventEnter.filter(
+      (d) => d.type === "point" && !this.getEventRenderer(d),
+    );
 
     pointEvents
       .append("circle")
       .attr("class", "d3-event-point")
-      .attr("r", 8)
-      .attr("stroke", "white")
+      .attr("fill", (d) => d.color)
       .attr("stroke-width", 2)
       .attr("filter", `url(#drop-shadow-${this.options.id})`);
 
-    pointEvents
-      .append("text")
-      .attr("class", "d3-event-text")
-      .attr("text-anchor", "middle")
-      .attr("fill", "#333")
-      .attr("y", -20);
+    pointEvents
+      .append("text")
+      .attr("class", "d3-event-text")
+      .attr("transform", this.getContentTransform())
+      // 纵向模式下标题位于圆形左侧
+      .attr("text-anchor", this.isVertical() ? "end" : "middle")
+      .attr("dominant-baseline", this.isVertical() ? "middle" : null)
+      .style("fill", "var(--d3-timeline-text)");
+
+    // 更新所有事件
+    const eventUpdate = eventEnter.merge(eventSelection);
+
+    eventUpdate.style("display", (d) =>
+      this.isEventHidden(d) ? "none" : null,
+    );
+
+    const eventTransform = (d: EventData) => {
+      const x = xScale(this.getEventStart(d, xScale));
+      const y = this.calculateEventOffsetY(d);
+      return `translate(${x}, ${y})`;
+    };
+    if (animate) {
+      eventUpdate
+        .transition()
+        .duration(this.options.animationDuration)
+        .attr("transform", eventTransform);
+    } else {
+      eventUpdate.interrupt().attr("transform", eventTransform);
+    }
+
+    // 更新范围事件
+    const rangeWidth = (d: EventData) => this.calculateEventWidth(d, xScale);
+    const rangeTextX = (d: EventData) => rangeWidth(d) / 2;
+    const capPath = (d: EventData) =>
+      this.calculateEventCapPath(
+        rangeWidth(d),
+        this.getEventGeometry(d).rangeHeight,
+      );
+    // 自定义渲染器的子元素由渲染器自行更新
+    const defaultUpdate = eventUpdate.filter((d) => !this.getEventRenderer(d));
+    const ranges = defaultUpdate
+      .select(".d3-event-range")
+      .attr("x", 0)
+      .attr("mask", (d) =>
+        d.openStart ? `url(#fade-start-${this.options.id})` : null,
+      );
+    const caps = defaultUpdate
+      .select(".d3-event-cap")
+      .attr("display", (d) => (d.openEnd ? null : "none"));
+    const progressWidth = (d: EventData) =>
+      this.calculateProgressWidth(d, xScale);
+    const statuses = defaultUpdate
+      .select(".d3-event-status")
+      .attr("display", (d) => (this.getStatusFill(d) ? null : "none"))
+      .attr("fill", (d) => this.getStatusFill(d));
+    const progresses = defaultUpdate
+      .select(".d3-event-progress")
+      .attr("display", (d) => (d.progress === undefined ? "none" : null))
+      .style("fill", "var(--d3-timeline-progress)");
+    const progressHandles = defaultUpdate
+      .select(".d3-event-progress-handle")
+      .attr("display", (d) => (d.progress === undefined ? "none" : null));
+    // 叠加层与事件矩形使用相同的渐隐遮罩
+    [statuses, progresses].forEach((selection) =>
+      selection.attr("mask", (d) =>
+        d.openStart ? `url(#fade-start-${this.options.id})` : null,
+      ),
+    );
+    const endHandles = defaultUpdate.select(".d3-event-handle-end");
+    // 开放的一端不能调整
+    defaultUpdate
+      .select(".d3-event-handle-start")
+      .attr("display", (d) => (d.openStart ? "none" : null));
+    endHandles.attr("display", (d) => (d.openEnd ? "none" : null));
+    // 事件尺寸随时间线高度缩放
+    defaultUpdate.each((d, i, nodes) => {
+      const { rangeHeight } = this.getEventGeometry(d);
+      const group = d3.select(nodes[i]);
+      group
+        .selectAll(".d3-event-handle")
+        .attr("y", -rangeHeight / 2)
+        .attr("height", rangeHeight);
+      group
+        .selectAll(".d3-event-status, .d3-event-progress")
+        .attr("y", -rangeHeight / 2)
+        .attr("height", rangeHeight);
+      group
+        .select(".d3-event-progress-handle")
+        .attr("y", rangeHeight / 4)
+        .attr("height", rangeHeight / 4);
+    });
+    const rangeTexts = defaultUpdate
+      .select(".d3-event-text")
+      .filter((d) => d.type === "range")
+      .style("fill", (d) => this.getEventTextColor(d))
+      .text((d) => d.title);
+    const points = defaultUpdate
+      .select(".d3-event-point")
+      .attr("cx", 0)
+      .attr("cy", 0);
+
+    // 数据更新时，尺寸和颜色与位置一起过渡
+    if (animate) {
+      const duration = this.options.animationDuration;
+      ranges
+        .transition()
+        .duration(duration)
+        .attr("width", rangeWidth)
+        .attr("y", (d) => -this.getEventGeometry(d).rangeHeight / 2)
+        .attr("height", (d) => this.getEventGeometry(d).rangeHeight)
+        .attr("fill", (d) => d.color);
+      caps
+        .transition()
+        .duration(duration)
+        .attr("d", capPath)
+        .attr("fill", (d) => d.color);
+      statuses.transition().duration(duration).attr("width", rangeWidth);
+      progresses.transition().duration(duration).attr("width", progressWidth);
+      progressHandles
+        .transition()
+        .duration(duration)
+        .attr("x", (d) => progressWidth(d) - D3Timeline.HANDLE_WIDTH / 2);
+      endHandles
+        .transition()
+        .duration(duration)
+        .attr("x", (d) => this.calculateEndHandleX(d, xScale));
+      rangeTexts
+        .transition()
+        .duration(duration)
+        .attr(this.textAttr("x"), rangeTextX);
+      points
+        .transition()
+        .duration(duration)
+        .attr("r", (d) => this.getEventGeometry(d).radius)
+        .attr("fill", (d) => d.color);
+    } else {
+      ranges
+        .interrupt()
+        .attr("width", rangeWidth)
+        .attr("y", (d) => -this.getEventGeometry(d).rangeHeight / 2)
+        .attr("height", (d) => this.getEventGeometry(d).rangeHeight)
+        .attr("fill", (d) => d.color);
+      caps
+        .interrupt()
+        .attr("d", capPath)
+        .attr("fill", (d) => d.color);
+      statuses.interrupt().attr("width", rangeWidth);
+      progresses.interrupt().attr("width", progressWidth);
+      progressHandles
+        .interrupt()
+        .attr("x", (d) => progressWidth(d) - D3Timeline.HANDLE_WIDTH / 2);
+      endHandles
+        .interrupt()
+        .attr("x", (d) => this.calculateEndHandleX(d, xScale));
+      rangeTexts.interrupt().attr(this.textAttr("x"), rangeTextX);
+      points
+        .interrupt()
+        .attr("r", (d) => this.getEventGeometry(d).radius)
+        .attr("fill", (d) => d.color);
+    }
+
+    // 更新点事件
+    defaultUpdate
+      .select(".d3-event-text")
+      .filter((d) => d.type === "point")
+      .attr(this.textAttr("x"), 0)
+      .attr(this.textAttr("y"), (d) => -this.getEventGeometry(d).titleOffset)
+      .text((d) => d.title);
+
+    // 自定义渲染器
+    this.renderCustomEvents(
+      eventUpdate,
+      xScale,
+      animate ? this.options.animationDuration : 0,
+      eventEnter,
+    );
+
+    // 添加交互
+    eventUpdate
+      .on("mouseenter", (event: MouseEvent, d: EventData) => {
+        const element = event.currentTarget as SVGGElement;
+        this.showTooltip(event, d, element.getBoundingClientRect());
+        this.emit("event.hover", { data: d, ...this.toPointerData(event) });
+      })
+      .on("mousemove", (event: MouseEvent) => this.moveTooltip(event))
+      .on("mouseleave", (event: MouseEvent, d: EventData) => {
+        this.hideTooltip();
+        this.emit("event.leave", { data: d, ...this.toPointerData(event) });
+      })
+      .on("focus", (event: FocusEvent, d: EventData) => {
+        this.focusedEventId = d.id;
+        this.updateRovingTabIndex();
+        const element = event.currentTarget as SVGGElement;
+        this.showFocusTooltip(d, element.getBoundingClientRect(), element);
+      })
+      .on("blur", (event: FocusEvent) => {
+        (event.currentTarget as SVGGElement).removeAttribute(
+          "aria-describedby",
+        );
+        this.hideTooltip();
+      })
+      .attr("aria-label", (d) => this.describeEvent(d))
+      .attr("data-status", (d) => d.status ?? null)
+      .classed("d3-event-selected", (d) => this.selectedEventIds.has(d.id))
+      .call((selection) => this.applyDrag(selection, this.drag));
+
+    this.updateRovingTabIndex();
+
+    // 移除旧事件，淡出中的元素不再参与数据绑定和交互
+    if (animate) {
+      eventSelection
+        .exit()
+        .classed("event", false)
+        .classed("d3-event-exiting", true)
+        .attr("tabindex", null)
+        .transition()
+        .duration(this.options.animationDuration)
+        .style("opacity", 0)
+        .remove();
+    } else {
+      eventSelection.exit().remove();
+    }
+  }
+
+  // 事件使用的自定义渲染器，未指定形状或未注册时返回 undefined
+  private getEventRenderer(event: EventData): EventRenderer | undefined {
+    return event.shape === undefined
+      ? undefined
+      : this.eventRenderers.get(event.shape);
+  }
+
+  private getEventRenderContext(
+    xScale: d3.ScaleTime<number, number>,
+    duration = 0,
+  ): EventRenderContext {
+    return {
+      xScale,
+      geometry: (event) => this.getEventGeometry(event),
+      duration,
+      vertical: this.isVertical(),
+      textTransform: this.getContentTransform(),
+      textAttr: (attr) => this.textAttr(attr),
+      textColor: (event) => this.getEventTextColor(event),
+      shadowFilter: `url(#drop-shadow-${this.options.id})`,
+    };
+  }
+
+  /**
+   * 按形状分组调用自定义渲染器
+   * @param selection - 需要更新的事件元素
+   * @param xScale - 当前比例尺
+   * @param duration - 过渡动画时长，0 表示直接更新
+   * @param entered - 新创建的事件元素（缩放时没有新元素）
+   */
+  private renderCustomEvents(
+    selection: EventSelection,
+    xScale: d3.ScaleTime<number, number>,
+    duration: number,
+    entered?: EventSelection,
+  ): void {
+    const shapes = new Set(
+      selection
+        .data()
+        .filter((d) => this.getEventRenderer(d))
+        .map((d) => d.shape as string),
+    );
+    if (shapes.size === 0) return;
+    const context = this.getEventRenderContext(xScale, duration);
+    shapes.forEach((shape) => {
+      const renderer = this.eventRenderers.get(shape)!;
+      if (entered) {
+        renderer.enter(
+          entered.filter((d) => d.shape === shape),
+          context,
+        );
+      }
+      renderer.update(
+        selection.filter((d) => d.shape === shape),
+        context,
+      );
+    });
+  }
+
+  /**
+   * 生成事件的无障碍描述
+   * @param event - 事件数据
+   */
+  private describeEvent(event: EventData): string {
+    const format = this.formatTime("%c");
+    const timeline = this.timelines.find((t) => t.id === event.timelineId);
+    const [start, end] = this.formatEventBounds(event, format);
+    const time = event.type === "range" ? `${start} – ${end}` : start;
+    const duration =
+      event.type === "range" && !event.openStart
+        ? this.formatEventDuration(event)
+        : undefined;
+    const messages = this.getMessages();
+    const status = event.status ? messages.statuses[event.status] : undefined;
+    const progress =
+      event.progress !== undefined ? this.formatProgress(event) : undefined;
+    return [event.title, timeline?.name, time, duration, status, progress]
+      .filter(Boolean)
+      .join(", ");
+  }
+
+  // 范围事件的持续时间，例如 "3 days" / "3 天"（进行中的事件计算到当前时间）
+  private formatEventDuration(event: EventData): string {
+    return formatDuration(
+      this.getEventEnd(event).getTime() - event.startTime.getTime(),
+      this.getMessages(),
+    );
+  }
+
+  // 进度百分比，例如 "45%"
+  private formatProgress(event: EventData): string {
+    return `${Math.round(clamp(event.progress ?? 0, 0, 1) * 100)}%`;
+  }
+
+  // 事件的开始和结束时间文字，开放的一端显示为"未知"/"现在"
+  private formatEventBounds(
+    event: EventData,
+    format: (date: Date) => string,
+  ): [string, string] {
+    const messages = this.getMessages();
+    return [
+      event.openStart ? messages.unknown : format(event.startTime),
+      event.openEnd ? messages.now : format(event.endTime),
+    ];
+  }
+
+  /**
+   * 获取当前语言的界面文案，未定义的语言回退到英文
+   */
+  private getMessages(): LocaleMessages {
+    return MessageDefinitions[this.options.locale] ?? MessageDefinitions.en;
+  }
+
+  // 漫游焦点：只有一个事件可以通过 Tab 键进入，其余事件通过方向键访问
+  private updateRovingTabIndex(): void {
+    const events = this.eventGroup.selectAll<SVGGElement, EventData>(".event");
+    const focused = this.events.find((e) => e.id === this.focusedEventId);
+    const first = focused ?? this.getNavigableEvents()[0];
+    events.attr("tabindex", (d) => (d === first ? 0 : -1));
+  }
+
+  // 可通过键盘访问的事件（按时间线视觉顺序、再按开始时间排序）
+  private getNavigableEvents(timeline?: TimelineData): EventData[] {
+    const lanes = timeline ? [timeline] : this.getTimelinesInVisualOrder();
+    return lanes.flatMap((t) =>
+      this.events
+        .filter((e) => e.timelineId === t.id && !this.isEventHidden(e))
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime()),
+    );
+  }
+
+  // 时间线从上到下的排列顺序：子时间线紧跟在分组之后，折叠分组的子时间线不显示
+  private getTimelinesInVisualOrder(): TimelineData[] {
+    const ordered =
+      this.options.timelineOrder === "asc"
+        ? [...this.timelines]
+        : [...this.timelines].reverse();
+    const result: TimelineData[] = [];
+    const visit = (parent?: TimelineData) => {
+      ordered
+        .filter((t) => this.getParentTimeline(t) === parent)
+        .forEach((t) => {
+          result.push(t);
+          if (!this.collapsedTimelineIds.has(t.id)) visit(t);
+        });
+    };
+    visit();
+    return result;
+  }
+
+  // 同一分组内显示的兄弟时间线（包括自身），用于调整顺序
+  private getSiblingTimelines(timeline: TimelineData): TimelineData[] {
+    const parent = this.getParentTimeline(timeline);
+    return this.visibleTimelines.filter(
+      (t) => this.getParentTimeline(t) === parent,
+    );
+  }
+
+  private handleKeydown(event: KeyboardEvent): void {
+    const target = event.target as Element;
+    const labelDom = target.closest(".d3-timeline-label");
+    if (labelDom) {
+      this.handleLabelKeydown(
+        event,
+        d3.select(labelDom).datum() as TimelineData,
+      );
+      return;
+    }
+
+    const current = this.events.find((e) => e.id === this.focusedEventId);
+    const xScale = this.getCurrentXScale();
+    // 纵向模式下时间沿上下方向，时间线沿左右方向
+    const key = this.isVertical()
+      ? (D3Timeline.VERTICAL_ARROW_KEYS[event.key] ?? event.key)
+      : event.key;
+    switch (key) {
+      case "ArrowLeft":
+      case "ArrowRight": {
+        const lane = current
+          ? this.timelines.find((t) => t.id === current.timelineId)
+          : undefined;
+        const events = this.getNavigableEvents(lane);
+        const index = current ? events.indexOf(current) : -1;
+        const next =
+          events[
+            clamp(index + (key === "ArrowRight" ? 1 : -1), 0, events.length - 1)
+          ];
+        if (next) this.focusEvent(next);
+        break;
+      }
+      case "ArrowUp":
+      case "ArrowDown": {
+        if (!current) return;
+        const lanes = this.getTimelinesInVisualOrder();
+        const step = key === "ArrowDown" ? 1 : -1;
+        let laneIndex = lanes.findIndex((t) => t.id === current.timelineId);
+        // 跳过没有可访问事件的时间线，选择时间上最接近的事件
+        for (
+          laneIndex += step;
+          laneIndex >= 0 && laneIndex < lanes.length;
+          laneIndex += step
+        ) {
+          const events = this.getNavigableEvents(lanes[laneIndex]);
+          if (events.length === 0) continue;
+          const time = current.startTime.getTime();
+          const nearest = d3.least(events, (e) =>
+            Math.abs(e.startTime.getTime() - time),
+          );
+          if (nearest) this.focusEvent(nearest);
+          break;
+        }
+        break;
+      }
+      case "Enter":
+      case " ":
+        if (!current) return;
+        this.selectByClick(current, event.shiftKey || event.ctrlKey);
+        this.pinTooltip(current);
+        this.emit("click", {
+          data: current,
+          sourceEvent: event,
+          time: current.startTime,
+        });
+        break;
+      case "+":
+      case "=":
+      case "-":
+      case "_": {
+        const factor = event.key === "-" || event.key === "_" ? 1 / 2 : 2;
+        const x = current
+          ? xScale(current.startTime)
+          : this.getLayoutFrame().margin.left +
+            this.getTimelineInnerWidth() / 2;
+        this.svg
+          .call(this.zoom)
+          .transition()
+          .duration(this.options.animationDuration)
+          .call(this.zoom.scaleBy, factor, this.toZoomPoint(x));
+        break;
+      }
+      case "Escape":
+        if (this.pinnedTooltipEventId === undefined) return;
+        this.hideTooltip(true);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  private handleLabelKeydown(
+    event: KeyboardEvent,
+    timeline: TimelineData,
+  ): void {
+    switch (event.key) {
+      case "Enter":
+      case " ":
+        this.emit("timeline.click", {
+          data: timeline,
+          sourceEvent: event,
+          time: this.getCurrentXScale().domain()[0],
+        });
+        break;
+      case "ArrowLeft":
+        // 折叠分组
+        if (
+          !this.hasChildTimelines(timeline) ||
+          this.collapsedTimelineIds.has(timeline.id)
+        ) {
+          return;
+        }
+        this.toggleTimeline(timeline.id, true);
+        this.focusTimelineLabel(timeline);
+        break;
+      case "ArrowRight": {
+        // 展开分组，已展开时进入时间线内的第一个事件
+        if (this.collapsedTimelineIds.has(timeline.id)) {
+          this.toggleTimeline(timeline.id, false);
+          this.focusTimelineLabel(timeline);
+          break;
+        }
+        const first = this.getNavigableEvents(timeline)[0];
+        if (first) this.focusEvent(first);
+        break;
+      }
+      case "ArrowUp":
+      case "ArrowDown": {
+        // 编辑模式下 Alt + 上下方向键在同一分组内调整时间线顺序
+        if (!this.options.editable || !event.altKey) return;
+        const siblings = this.getSiblingTimelines(timeline);
+        const target =
+          siblings[
+            siblings.indexOf(timeline) + (event.key === "ArrowUp" ? -1 : 1)
+          ];
+        if (!target) break;
+        this.moveTimeline(timeline.id, this.timelines.indexOf(target));
+        this.focusTimelineLabel(timeline);
+        break;
+      }
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  private focusTimelineLabel(timeline: TimelineData): void {
+    this.labelGroup
+      .selectAll<SVGTextElement, TimelineData>(".d3-timeline-label")
+      .filter((d) => d.id === timeline.id)
+      .node()
+      ?.focus();
+  }
+
+  private handleLabelDragStart(timeline: TimelineData): void {
+    this.labelDragState = {
+      timeline,
+      toIndex: this.getSiblingTimelines(timeline).indexOf(timeline),
+    };
+    this.labelGroup
+      .selectAll<SVGTextElement, TimelineData>(".d3-timeline-label")
+      .filter((d) => d === timeline)
+      .interrupt()
+      .classed("d3-timeline-label-dragging", true)
+      .raise();
+  }
+
+  private handleLabelDrag(
+    event: d3.D3DragEvent<SVGTextElement, TimelineData, TimelineData>,
+  ): void {
+    if (!this.labelDragState) return;
+    const { timeline } = this.labelDragState;
+    // 纵向模式下时间线按列排列，沿横向拖拽
+    const position = this.isVertical() ? event.x : event.y;
+    this.labelGroup
+      .selectAll<SVGTextElement, TimelineData>(".d3-timeline-label")
+      .filter((d) => d === timeline)
+      .attr(this.isVertical() ? "x" : "y", position);
+
+    // 指针越过同一分组内其他时间线的中线时，目标位置随之改变
+    const others = this.getSiblingTimelines(timeline).filter(
+      (t) => t !== timeline,
+    );
+    this.labelDragState.toIndex = others.filter(
+      (t) =>
+        this.calculateTimelineOffsetY(t) + this.getTimelineHeight(t) / 2 <
+        position,
+    ).length;
+  }
+
+  private handleLabelDragEnd(): void {
+    if (!this.labelDragState) return;
+    const { timeline, toIndex } = this.labelDragState;
+    this.labelDragState = undefined;
+    this.labelGroup
+      .selectAll(".d3-timeline-label-dragging")
+      .classed("d3-timeline-label-dragging", false);
 
-    // 更新所有事件
-    const eventUpdate = eventEnter.merge(eventSelection);
+    const target = this.getSiblingTimelines(timeline)[toIndex];
+    if (
+      !target ||
+      !this.moveTimeline(timeline.id, this.timelines.indexOf(target))
+    ) {
+      // 位置未改变，标签回到原处
+      this.renderTimelineLabels();
+    }
+  }
 
-    eventUpdate
-      .transition()
-      .duration(this.options.animationDuration)
-      .attr("transform", (d) => {
-        const timeline = this.timelines.find((t) => t.id === d.timelineId);
-        const x = this.xScale(d.startTime);
-        const y = timeline
-          ? this.calculateTimelineOffsetY(timeline) +
-            this.options.timelineHeight
-          : 0;
-        return `translate(${x}, ${y})`;
-      });
+  /**
+   * 将键盘焦点移动到指定事件，必要时平移视图使其可见
+   * @param event - 事件数据
+   * @param sourceEvent - 触发焦点移动的键盘事件
+   */
+  private focusEvent(event: EventData): void {
+    this.focusedEventId = event.id;
+    const [start, end] = this.getCurrentXScale().domain();
+    if (event.startTime < start || event.startTime > end) {
+      this.svg.call(
+        this.zoom.translateTo,
+        ...this.toZoomPoint(this.xScale(event.startTime)),
+      );
+    }
 
-    // 更新范围事件
-    eventUpdate
-      .select(".d3-event-range")
-      .attr("x", 0)
-      .attr("width", (d) => {
-        const endX = this.xScale(d.endTime);
-        const startX = this.xScale(d.startTime);
-        return Math.max(5, endX - startX);
-      })
-      .attr("fill", (d) => d.color);
+    if (this.isCanvasRenderer()) {
+      this.drawCanvas(this.getCurrentXScale());
+      this.showFocusTooltip(event, this.getEventClientRect(event)!);
+      return;
+    }
 
-    eventUpdate
-      .select(".d3-event-text")
-      .filter((d) => d.type === "range")
-      .attr("x", (d) => {
-        const endX = this.xScale(d.endTime);
-        const startX = this.xScale(d.startTime);
-        return (endX - startX) / 2;
-      })
-      .text((d) => d.title);
+    this.updateRovingTabIndex();
+    this.eventGroup
+      .selectAll<SVGGElement, EventData>(".event")
+      .filter((d) => d.id === event.id)
+      .node()
+      ?.focus();
+  }
 
-    // 更新点事件
-    eventUpdate
-      .select(".d3-event-point")
-      .attr("cx", 0)
-      .attr("cy", 0)
-      .attr("fill", (d) => d.color);
+  private handleDragStart(
+    event: d3.D3DragEvent<SVGGElement, EventData, EventData>,
+    d: EventData,
+  ): void {
+    const xScale = this.getCurrentXScale();
+    const target = event.sourceEvent.target as Element;
+    const edge = target.getAttribute?.("data-edge");
+    const progress = target.classList?.contains("d3-event-progress-handle");
+    this.dragState = {
+      mode: progress
+        ? "progress"
+        : edge === "start" || edge === "end"
+          ? edge
+          : "move",
+      origin: d,
+      draft: { ...d },
+      pointerTime: xScale.invert(event.x).getTime(),
+    };
+    this.hideTooltip(true);
+    this.eventGroup
+      .selectAll<SVGGElement, EventData>(".event")
+      .filter((e) => e.id === d.id)
+      .classed("d3-event-dragging", true)
+      .raise();
+  }
 
-    eventUpdate
-      .select(".d3-event-text")
-      .filter((d) => d.type === "point")
-      .attr("x", 0)
-      .text((d) => d.title);
+  private handleDrag(
+    event: d3.D3DragEvent<SVGGElement, EventData, EventData>,
+  ): void {
+    if (!this.dragState) return;
+    const { mode, origin } = this.dragState;
+    const xScale = this.getCurrentXScale();
+    const delta = xScale.invert(event.x).getTime() - this.dragState.pointerTime;
+    const start = origin.startTime.getTime();
+    const end = origin.endTime.getTime();
+
+    const draft: EventData = { ...origin };
+    switch (mode) {
+      case "start":
+        draft.startTime = new Date(Math.min(start + delta, end));
+        break;
+      case "end":
+        draft.endTime = new Date(Math.max(end + delta, start));
+        break;
+      case "progress": {
+        const startX = xScale(this.getEventStart(origin, xScale));
+        const ratio =
+          (event.x - startX) / this.calculateEventWidth(origin, xScale);
+        draft.progress = Math.round(clamp(ratio, 0, 1) * 100) / 100;
+        break;
+      }
+      case "move":
+      default: {
+        draft.startTime = new Date(start + delta);
+        draft.endTime = new Date(end + delta);
+        const timeline = this.findTimelineByOffsetY(event.y);
+        if (timeline) draft.timelineId = timeline.id;
+      }
+    }
+    this.dragState.draft = draft;
 
-    // 添加交互
-    eventUpdate
-      .on("mouseover", (event: MouseEvent, d: EventData) => {
-        const element = event.currentTarget as SVGGElement;
-        this.showTooltip(event, d, element);
-      })
-      .on("mouseout", () => this.hideTooltip());
+    // 只更新被拖拽元素的几何位置，数据在拖拽结束时提交
+    const group = this.eventGroup
+      .selectAll<SVGGElement, EventData>(".event")
+      .filter((e) => e.id === origin.id);
+    group.attr(
+      "transform",
+      `translate(${xScale(this.getEventStart(draft, xScale))}, ${this.calculateEventOffsetY(draft)})`,
+    );
+    if (draft.type === "range") {
+      const width = this.calculateEventWidth(draft, xScale);
+      group.select(".d3-event-range").attr("width", width);
+      group
+        .select(".d3-event-cap")
+        .attr(
+          "d",
+          this.calculateEventCapPath(
+            width,
+            this.getEventGeometry(draft).rangeHeight,
+          ),
+        );
+      group
+        .select(".d3-event-handle-end")
+        .attr("x", this.calculateEndHandleX(draft, xScale));
+      group.select(".d3-event-status").attr("width", width);
+      const progressWidth = this.calculateProgressWidth(draft, xScale);
+      group.select(".d3-event-progress").attr("width", progressWidth);
+      group
+        .select(".d3-event-progress-handle")
+        .attr("x", progressWidth - D3Timeline.HANDLE_WIDTH / 2);
+      group.select(".d3-event-text").attr(this.textAttr("x"), width / 2);
+    }
 
-    // 移除旧事件
-    eventSelection
-      .exit()
-      .transition()
-      .duration(this.options.animationDuration)
-      .style("opacity", 0)
-      .remove();
+    this.emit("event.drag", { oldData: origin, newData: draft });
+  }
+
+  private handleDragEnd(): void {
+    if (!this.dragState) return;
+    const { origin, draft } = this.dragState;
+    this.dragState = undefined;
+    this.eventGroup
+      .selectAll(".d3-event-dragging")
+      .classed("d3-event-dragging", false);
+
+    const changed =
+      draft.startTime.getTime() !== origin.startTime.getTime() ||
+      draft.endTime.getTime() !== origin.endTime.getTime() ||
+      draft.progress !== origin.progress ||
+      draft.timelineId !== origin.timelineId;
+
+    if (changed) {
+      const index = this.events.indexOf(origin);
+      if (index >= 0) this.events[index] = draft;
+      this.render(true);
+    }
+
+    this.emit("event.dragend", { oldData: origin, newData: draft });
+    if (changed) {
+      this.emit("event.change", { oldData: origin, newData: draft });
+      this.emitDataChange("updateEvent");
+    }
   }
 
+  // 阶段线的路径和箭头都使用布局坐标，纵向模式下由内容组的变换统一映射到屏幕
   private generatePathSegment(
     start: { x: number; y: number },
     end: { x: number; y: number },
@@ -1170,9 +4737,9 @@ export class D3Timeline {
     }
   }
 
-  // 更新阶段线位置（用于缩放时）
-  private updateStageLinePositions(xScale: d3.ScaleTime<number, number>): void {
-    const stageGroups = new Map<string | number, EventData[]>();
+  // 按阶段ID对事件分组，并按阶段序号排序（只保留至少包含两个事件的阶段）
+  private groupStageEvents(): Map<ID, EventData[]> {
+    const stageGroups = new Map<ID, EventData[]>();
 
     this.events.forEach((event) => {
       if (event.stage) {
@@ -1184,12 +4751,48 @@ export class D3Timeline {
       }
     });
 
-    const params = this.options.stageLineParams;
-
     stageGroups.forEach((events, stageId) => {
       events.sort((a, b) => (a.stage!.index || 0) - (b.stage!.index || 0));
-      if (events.length < 2) return;
+      if (events.length < 2) stageGroups.delete(stageId);
+    });
+
+    return stageGroups;
+  }
+
+  private calculateStagePoints(
+    events: EventData[],
+    xScale: d3.ScaleTime<number, number>,
+  ): StagePoint[] {
+    return events.map((event) => {
+      const x = xScale(this.getEventStart(event, xScale));
+      const y = this.calculateEventOffsetY(event);
+      // 自定义形状以开始时间为锚点，与点事件相同
+      const width =
+        event.type === "range" && !this.getEventRenderer(event)
+          ? this.calculateEventWidth(event, xScale)
+          : 0;
+      return { x, y, event, width };
+    });
+  }
+
+  private calculateStagePathData(points: StagePoint[]): string {
+    const params = this.options.stageLineParams;
+    let pathData = "";
+    for (let i = 0; i < points.length - 1; i++) {
+      const start = points[i];
+      const end = points[i + 1];
+      const segment = this.generatePathSegment(start, end, params.path);
+      if (i === 0) pathData += `M ${start.x} ${start.y}`;
+      pathData += segment;
+    }
+    return pathData;
+  }
+
+  // 更新阶段线位置（用于缩放时）
+  private updateStageLinePositions(xScale: d3.ScaleTime<number, number>): void {
+    const params = this.options.stageLineParams;
 
+    this.groupStageEvents().forEach((events, stageId) => {
       const group = this.stageLineGroup.select<SVGGElement>(
         `.stage-${stageId}`,
       );
@@ -1198,28 +4801,8 @@ export class D3Timeline {
       // 清空 group 并重新绘制（因为 zoom 改变了 x 坐标）
       group.selectAll("*").remove();
 
-      const points = events.map((event) => {
-        const timeline = this.timelines.find((t) => t.id === event.timelineId);
-        const x = xScale(event.startTime);
-        const y = timeline
-          ? this.calculateTimelineOffsetY(timeline) +
-            this.options.timelineHeight / 2
-          : 0;
-        const width =
-          event.type === "range"
-            ? xScale(event.endTime) - xScale(event.startTime)
-            : 0;
-        return { x, y, event, width };
-      });
-
-      let pathData = "";
-      for (let i = 0; i < points.length - 1; i++) {
-        const start = points[i];
-        const end = points[i + 1];
-        const segment = this.generatePathSegment(start, end, params.path);
-        if (i === 0) pathData += `M ${start.x} ${start.y}`;
-        pathData += segment;
-      }
+      const points = this.calculateStagePoints(events, xScale);
+      const pathData = this.calculateStagePathData(points);
 
       // 在 group 中重新绘制路径
       group
@@ -1248,53 +4831,20 @@ export class D3Timeline {
 
   private renderStageLines(): void {
     if (!this.stageLinesVisible) return;
+    const xScale = this.getCurrentXScale();
     this.stageLineGroup.selectAll("*").remove();
 
-    const stageGroups = new Map<string | number, EventData[]>();
-
-    this.events.forEach((event) => {
-      if (event.stage) {
-        const key = event.stage.id;
-        if (!stageGroups.has(key)) {
-          stageGroups.set(key, []);
-        }
-        stageGroups.get(key)!.push(event);
-      }
-    });
-
     const params = this.options.stageLineParams;
 
-    stageGroups.forEach((events, stageId) => {
-      events.sort((a, b) => (a.stage!.index || 0) - (b.stage!.index || 0));
-      if (events.length < 2) return;
-
+    this.groupStageEvents().forEach((events, stageId) => {
       // 为每个 stage 创建 group
       const stageGroup = this.stageLineGroup
         .append("g")
         .attr("class", `stage-line-group stage-${stageId}`);
+      stageGroup.datum<StageLine>({ id: stageId, events });
 
-      const points = events.map((event) => {
-        const timeline = this.timelines.find((t) => t.id === event.timelineId);
-        const x = this.xScale(event.startTime);
-        const y = timeline
-          ? this.calculateTimelineOffsetY(timeline) +
-            this.options.timelineHeight / 2
-          : 0;
-        const width =
-          event.type === "range"
-            ? this.xScale(event.endTime) - this.xScale(event.startTime)
-            : 0;
-        return { x, y, event, width };
-      });
-
-      let pathData = "";
-      for (let i = 0; i < points.length - 1; i++) {
-        const start = points[i];
-        const end = points[i + 1];
-        const segment = this.generatePathSegment(start, end, params.path);
-        if (i === 0) pathData += `M ${start.x} ${start.y}`;
-        pathData += segment;
-      }
+      const points = this.calculateStagePoints(events, xScale);
+      const pathData = this.calculateStagePathData(points);
 
       // 路径放入 group
       const path = stageGroup
@@ -1325,136 +4875,771 @@ export class D3Timeline {
         }
       }
 
-      if (params.animation) {
-        const totalLength =
-          (path.node() as SVGPathElement)?.getTotalLength() || 0;
-        path
-          .attr("stroke-dasharray", `${totalLength} ${totalLength}`)
-          .attr("stroke-dashoffset", totalLength)
-          .transition()
-          .duration(2000)
-          .ease(d3.easeLinear)
-          .attr("stroke-dashoffset", 0)
-          .on("end", function () {
-            d3.select(this).attr(
-              "stroke-dasharray",
-              params.dash ? "5,5" : null,
-            );
-          });
+      if (params.animation) {
+        const totalLength =
+          (path.node() as SVGPathElement)?.getTotalLength() || 0;
+        path
+          .attr("stroke-dasharray", `${totalLength} ${totalLength}`)
+          .attr("stroke-dashoffset", totalLength)
+          .transition()
+          .duration(2000)
+          .ease(d3.easeLinear)
+          .attr("stroke-dashoffset", 0)
+          .on("end", function () {
+            d3.select(this).attr(
+              "stroke-dasharray",
+              params.dash ? "5,5" : null,
+            );
+          });
+      }
+    });
+  }
+
+  private drawArrowInGroup(
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    start: StagePoint,
+    end: StagePoint,
+    params: StageLineParams,
+    pathType: string,
+  ): void {
+    group
+      .append("path")
+      .attr("class", "stage-arrow")
+      .attr("d", this.calculateArrowPath(start, end, pathType))
+      .attr("stroke", params.color)
+      .attr("stroke-width", params.size)
+      .attr("fill", "none");
+  }
+
+  // 阶段线箭头与事件中心的距离
+  private getEventAnchorRadius(event: EventData): number {
+    const renderer = this.getEventRenderer(event);
+    return (
+      renderer?.anchorRadius?.(
+        event,
+        this.getEventRenderContext(this.getCurrentXScale()),
+      ) ?? this.getEventGeometry(event).radius
+    );
+  }
+
+  private calculateArrowPath(
+    start: StagePoint,
+    end: StagePoint,
+    pathType: string,
+  ): string {
+    // 计算切线角度
+    let angle: number;
+    switch (pathType) {
+      case "arc": {
+        const midX = (start.x + end.x) / 2;
+        const arcHeight = Math.abs(end.x - start.x) * 0.2;
+        const controlY = Math.min(start.y, end.y) - arcHeight;
+        angle = Math.atan2(end.y - controlY, end.x - midX);
+        break;
+      }
+      case "fluid": {
+        const cp2x = start.x + (end.x - start.x) * 0.5;
+        const cp2y = end.y;
+        angle = Math.atan2(end.y - cp2y, end.x - cp2x);
+        break;
+      }
+      case "magnet":
+      case "grid":
+      case "straight":
+      default:
+        angle = Math.atan2(end.y - start.y, end.x - start.x);
+    }
+
+    // 计算箭头目标位置（考虑事件尺寸偏移）
+    let targetX = end.x;
+    let targetY = end.y;
+
+    if (end.event.type === "point" || this.getEventRenderer(end.event)) {
+      // 沿反方向偏移圆形半径（自定义形状的锚点半径）
+      const radius = this.getEventAnchorRadius(end.event);
+      targetX = end.x - radius * Math.cos(angle);
+      targetY = end.y - radius * Math.sin(angle);
+    } else if (end.event.type === "range") {
+      // 根据方向决定指向左边或右边的中点
+      // 如果从左到右（start.x < end.x），指向左边缘（往左偏移width/2）
+      // 如果从右到左（start.x > end.x），指向右边缘（往右偏移width/2）
+      const direction = start.x < end.x ? -1 : 1;
+      const offsetX = (end.width / 2) * direction;
+      targetX = end.x + offsetX;
+      targetY = end.y; // 垂直中点
+    }
+
+    // 绘制箭头（以 targetX, targetY 为顶点，沿 angle 反方向）
+    const arrowLength = 10;
+    const arrowAngle = Math.PI / 6;
+
+    const x1 = targetX - arrowLength * Math.cos(angle - arrowAngle);
+    const y1 = targetY - arrowLength * Math.sin(angle - arrowAngle);
+    const x2 = targetX - arrowLength * Math.cos(angle + arrowAngle);
+    const y2 = targetY - arrowLength * Math.sin(angle + arrowAngle);
+
+    return `M ${targetX} ${targetY} L ${x1} ${y1} M ${targetX} ${targetY} L ${x2} ${y2}`;
+  }
+
+  // 按设备像素比设置画布尺寸，保证高分屏下清晰
+  private resizeCanvas(): void {
+    if (!this.canvasLayer || !this.canvas) return;
+    // 画布位于内容组中，使用布局坐标系的尺寸
+    const { width, height } = this.getLayoutFrame();
+    const ratio = window.devicePixelRatio || 1;
+    this.canvasLayer.attr("width", width).attr("height", height);
+    this.canvas
+      .attr("width", Math.round(width * ratio))
+      .attr("height", Math.round(height * ratio))
+      .style("width", `${width}px`)
+      .style("height", `${height}px`);
+  }
+
+  /**
+   * 在画布上绘制时间线、阶段线和事件，并重建命中检测索引
+   * @param xScale - 当前比例尺
+   */
+  private drawCanvas(xScale: d3.ScaleTime<number, number>): void {
+    const context = this.canvas?.node()?.getContext("2d");
+    if (!context) return;
+    const ratio = window.devicePixelRatio || 1;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    const { width, height } = this.getLayoutFrame();
+    context.clearRect(0, 0, width, height);
+    this.hitIndex.clear();
+    this.canvasStagePaths = [];
+
+    this.drawCanvasTimelines(context, xScale);
+    if (this.stageLinesVisible) {
+      this.drawCanvasStageLines(context, xScale);
+    }
+    this.drawCanvasEvents(context, xScale);
+  }
+
+  private drawCanvasTimelines(
+    context: CanvasRenderingContext2D,
+    xScale: d3.ScaleTime<number, number>,
+  ): void {
+    const x = this.getLayoutFrame().margin.left;
+    const width = this.getTimelineInnerWidth();
+    const gradient = context.createLinearGradient(x, 0, x + width, 0);
+    gradient.addColorStop(0, this.themeTokens.laneGradientStart);
+    gradient.addColorStop(1, this.themeTokens.laneGradientEnd);
+
+    this.visibleTimelines.forEach((timeline) => {
+      const y = this.calculateTimelineOffsetY(timeline);
+
+      // 时间线背景
+      context.save();
+      if (timeline.background) {
+        context.fillStyle = timeline.background;
+      } else {
+        context.globalAlpha = 0.1;
+        context.fillStyle = gradient;
+      }
+      context.beginPath();
+      context.roundRect(x, y, width, this.getTimelineHeight(timeline), 8);
+      context.fill();
+      context.restore();
+
+      // 时间线主体
+      const lineY = y + this.getLaneCenterY(timeline);
+      if (timeline.lineStyle !== "hidden") {
+        context.save();
+        context.strokeStyle = timeline.color;
+        context.lineWidth = 3;
+        context.setLineDash(timeline.lineStyle === "dashed" ? [8, 6] : []);
+        context.beginPath();
+        context.moveTo(x, lineY);
+        context.lineTo(x + width, lineY);
+        context.stroke();
+        context.restore();
+      }
+
+      // 折叠分组的汇总范围
+      const rollup = this.laneLayouts.get(timeline.id)?.rollup ?? [];
+      context.save();
+      context.globalAlpha = 0.35;
+      context.fillStyle = timeline.color;
+      rollup.forEach((range) => {
+        const [x0, x1] = this.calculateRollupBounds(range, xScale);
+        context.fillRect(x0, lineY - 7, x1 - x0, 14);
+      });
+      context.restore();
+    });
+  }
+
+  private drawCanvasStageLines(
+    context: CanvasRenderingContext2D,
+    xScale: d3.ScaleTime<number, number>,
+  ): void {
+    const params = this.options.stageLineParams;
+    context.save();
+    context.strokeStyle = params.color;
+    context.lineWidth = params.size;
+
+    this.groupStageEvents().forEach((events, stageId) => {
+      const points = this.calculateStagePoints(events, xScale);
+      const path = new Path2D(this.calculateStagePathData(points));
+      this.canvasStagePaths.push({ id: stageId, events, path });
+      context.setLineDash(params.dash ? [5, 5] : []);
+      context.stroke(path);
+
+      if (params.arrow) {
+        context.setLineDash([]);
+        for (let i = 0; i < points.length - 1; i++) {
+          context.stroke(
+            new Path2D(
+              this.calculateArrowPath(points[i], points[i + 1], params.path),
+            ),
+          );
+        }
+      }
+    });
+    context.restore();
+  }
+
+  private drawCanvasEvents(
+    context: CanvasRenderingContext2D,
+    xScale: d3.ScaleTime<number, number>,
+  ): void {
+    const { width: frameWidth, margin } = this.getLayoutFrame();
+    const left = margin.left;
+    const right = frameWidth - margin.right;
+    // 标题可能超出事件本身，保留一定的缓冲区
+    const buffer = 100;
+
+    context.font = "bold 12px sans-serif";
+    context.textAlign = "center";
+
+    this.events.forEach((event) => {
+      if (this.isEventHidden(event)) return;
+      const x = xScale(this.getEventStart(event, xScale));
+      const y = this.calculateEventOffsetY(event);
+      const renderer = this.getEventRenderer(event);
+      const width =
+        event.type === "range" && !renderer
+          ? this.calculateEventWidth(event, xScale)
+          : 0;
+      if (x + width < left - buffer || x > right + buffer) return;
+
+      const bounds = this.calculateCanvasBounds(event, xScale);
+      const geometry = this.getEventGeometry(event);
+      const { rangeHeight, titleOffset } = geometry;
+      const radius = renderer
+        ? this.getEventAnchorRadius(event)
+        : geometry.radius;
+      if (renderer) {
+        context.save();
+        context.translate(x, y);
+        if (renderer.drawCanvas) {
+          renderer.drawCanvas(context, event, {
+            geometry,
+            stroke: this.themeTokens.eventStroke,
+            textColor: this.getEventTextColor(event),
+            fillText: (text, tx, ty) =>
+              this.fillCanvasText(context, text, tx, ty),
+          });
+        } else {
+          context.fillStyle = event.color;
+          context.beginPath();
+          context.arc(0, 0, radius, 0, Math.PI * 2);
+          context.fill();
+        }
+        context.restore();
+
+        context.fillStyle = this.themeTokens.text;
+        context.textBaseline = "alphabetic";
+        this.fillCanvasText(
+          context,
+          event.title,
+          x,
+          y - Math.max(titleOffset, radius + titleOffset / 2),
+        );
+      } else if (event.type === "range") {
+        context.fillStyle = event.color;
+        if (event.openStart) {
+          const fade = context.createLinearGradient(
+            x,
+            0,
+            x + width * D3Timeline.FADE_RATIO,
+            0,
+          );
+          const transparent = d3.color(event.color)?.copy({ opacity: 0 });
+          fade.addColorStop(0, transparent?.formatRgb() ?? "transparent");
+          fade.addColorStop(1, event.color);
+          context.fillStyle = fade;
+        }
+        context.beginPath();
+        context.roundRect(x, y - rangeHeight / 2, width, rangeHeight, 6);
+        if (event.openEnd) {
+          context.save();
+          context.translate(x, y);
+          context.fill(
+            new Path2D(this.calculateEventCapPath(width, rangeHeight)),
+          );
+          context.restore();
+        }
+        context.fill();
+        this.drawCanvasStatus(context, event, x, y, width, rangeHeight);
+
+        context.fillStyle = this.getEventTextColor(event);
+        context.textBaseline = "middle";
+        this.fillCanvasText(context, event.title, x + width / 2, y);
+      } else {
+        context.fillStyle = event.color;
+        context.strokeStyle = this.themeTokens.eventStroke;
+        context.lineWidth = 2;
+        context.beginPath();
+        context.arc(x, y, radius, 0, Math.PI * 2);
+        context.fill();
+        context.stroke();
+
+        context.fillStyle = this.themeTokens.text;
+        context.textBaseline = "alphabetic";
+        this.fillCanvasText(context, event.title, x, y - titleOffset);
+      }
+
+      // 选中状态
+      if (this.selectedEventIds.has(event.id)) {
+        context.save();
+        context.strokeStyle = this.themeTokens.selection;
+        context.lineWidth = 3;
+        context.beginPath();
+        if (width > 0) {
+          context.roundRect(x, y - rangeHeight / 2, width, rangeHeight, 6);
+        } else {
+          context.arc(x, y, radius, 0, Math.PI * 2);
+        }
+        context.stroke();
+        context.restore();
+      }
+
+      // 键盘焦点指示
+      if (event.id === this.focusedEventId) {
+        context.save();
+        context.strokeStyle = this.themeTokens.focus;
+        context.lineWidth = 2;
+        context.strokeRect(
+          bounds[0] - 3,
+          bounds[1] - 3,
+          bounds[2] - bounds[0] + 6,
+          bounds[3] - bounds[1] + 6,
+        );
+        context.restore();
       }
+
+      // 命中区域只需覆盖可见部分
+      this.hitIndex.add(
+        Math.max(bounds[0], left),
+        bounds[1],
+        Math.min(bounds[2], right),
+        bounds[3],
+        { data: event, bounds },
+      );
     });
   }
 
-  private drawArrowInGroup(
-    group: d3.Selection<SVGGElement, unknown, null, undefined>,
-    start: { x: number; y: number; event: EventData; width: number },
-    end: { x: number; y: number; event: EventData; width: number },
-    params: StageLineParams,
-    pathType: string,
+  // 绘制范围事件的状态图案和进度条
+  private drawCanvasStatus(
+    context: CanvasRenderingContext2D,
+    event: EventData,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
   ): void {
-    // 计算切线角度
-    let angle: number;
-    switch (pathType) {
-      case "arc": {
-        const midX = (start.x + end.x) / 2;
-        const arcHeight = Math.abs(end.x - start.x) * 0.2;
-        const controlY = Math.min(start.y, end.y) - arcHeight;
-        angle = Math.atan2(end.y - controlY, end.x - midX);
-        break;
-      }
-      case "fluid": {
-        const cp2x = start.x + (end.x - start.x) * 0.5;
-        const cp2y = end.y;
-        angle = Math.atan2(end.y - cp2y, end.x - cp2x);
-        break;
+    const top = y - height / 2;
+    context.save();
+    context.clip();
+    if (event.progress !== undefined) {
+      context.fillStyle = this.themeTokens.progress;
+      context.fillRect(x, top, width * clamp(event.progress, 0, 1), height);
+    }
+    context.strokeStyle = this.themeTokens.eventStroke;
+    context.globalAlpha = 0.6;
+    context.lineWidth = 2;
+    context.beginPath();
+    if (event.status === "planned" || event.status === "blocked") {
+      // 与 SVG 图案相同的 45° 斜线，间距 6 像素
+      const step = 6 * Math.SQRT2;
+      for (let offset = -height; offset < width; offset += step) {
+        context.moveTo(x + offset, top + height);
+        context.lineTo(x + offset + height, top);
+        if (event.status === "blocked") {
+          context.moveTo(x + offset, top);
+          context.lineTo(x + offset + height, top + height);
+        }
       }
-      case "magnet":
-      case "grid":
-      case "straight":
-      default:
-        angle = Math.atan2(end.y - start.y, end.x - start.x);
+    } else if (event.status === "cancelled") {
+      context.globalAlpha = 1;
+      context.lineWidth = height * 0.08;
+      context.moveTo(x, y);
+      context.lineTo(x + width, y);
     }
+    context.stroke();
+    context.restore();
+  }
 
-    // 计算箭头目标位置（考虑事件尺寸偏移）
-    let targetX = end.x;
-    let targetY = end.y;
+  // 绘制文字，纵向模式下反向变换以抵消内容组的坐标交换
+  private fillCanvasText(
+    context: CanvasRenderingContext2D,
+    text: string,
+    x: number,
+    y: number,
+  ): void {
+    if (!this.isVertical()) {
+      context.fillText(text, x, y);
+      return;
+    }
+    context.save();
+    context.translate(x, y);
+    context.transform(0, 1, 1, 0, 0, 0);
+    context.fillText(text, 0, 0);
+    context.restore();
+  }
 
-    if (end.event.type === "point") {
-      // 圆形半径8，沿反方向偏移8像素
-      targetX = end.x - 8 * Math.cos(angle);
-      targetY = end.y - 8 * Math.sin(angle);
-    } else if (end.event.type === "range") {
-      // 根据方向决定指向左边或右边的中点
-      // 如果从左到右（start.x < end.x），指向左边缘（往左偏移width/2）
-      // 如果从右到左（start.x > end.x），指向右边缘（往右偏移width/2）
-      const direction = start.x < end.x ? -1 : 1;
-      const offsetX = (end.width / 2) * direction;
-      targetX = end.x + offsetX;
-      targetY = end.y; // 垂直中点
+  // 根据事件颜色选择可读性更好的文字颜色
+  private getEventTextColor(event: EventData): string {
+    return getContrastColor(
+      event.color,
+      this.themeTokens.eventTextLight,
+      this.themeTokens.eventTextDark,
+    );
+  }
+
+  private calculateCanvasBounds(
+    event: EventData,
+    xScale: d3.ScaleTime<number, number>,
+  ): CanvasHit["bounds"] {
+    const x = xScale(this.getEventStart(event, xScale));
+    const y = this.calculateEventOffsetY(event);
+    const { rangeHeight, radius } = this.getEventGeometry(event);
+    if (this.getEventRenderer(event)) {
+      const r = this.getEventAnchorRadius(event);
+      return [x - r, y - r, x + r, y + r];
+    }
+    if (event.type === "range") {
+      const width = this.calculateEventWidth(event, xScale);
+      return [x, y - rangeHeight / 2, x + width, y + rangeHeight / 2];
+    }
+    return [x - radius, y - radius, x + radius, y + radius];
+  }
+
+  private handleCanvasHover(event: MouseEvent): void {
+    const [x, y] = d3.pointer(event, this.timelineGroup.node());
+    const hit = this.hitIndex.find(x, y);
+    this.canvas?.classed("d3-canvas-hover", !!hit);
+    if (hit?.data === this.hoveredHit?.data) {
+      if (hit) this.moveTooltip(event);
+      return;
     }
 
-    // 绘制箭头（以 targetX, targetY 为顶点，沿 angle 反方向）
-    const arrowLength = 10;
-    const arrowAngle = Math.PI / 6;
+    const pointer = this.toPointerData(event);
+    if (this.hoveredHit) {
+      this.emit("event.leave", { data: this.hoveredHit.data, ...pointer });
+    }
+    this.hoveredHit = hit;
+    if (!hit) {
+      this.hideTooltip();
+      return;
+    }
+    this.emit("event.hover", { data: hit.data, ...pointer });
+    // 将画布坐标换算为视口坐标，用于定位提示框
+    const svgRect = this.svg.node()!.getBoundingClientRect();
+    const [x0, y0, x1, y1] = this.toScreenBounds(hit.bounds);
+    this.showTooltip(
+      event,
+      hit.data,
+      new DOMRect(svgRect.left + x0, svgRect.top + y0, x1 - x0, y1 - y0),
+    );
+  }
 
-    const x1 = targetX - arrowLength * Math.cos(angle - arrowAngle);
-    const y1 = targetY - arrowLength * Math.sin(angle - arrowAngle);
-    const x2 = targetX - arrowLength * Math.cos(angle + arrowAngle);
-    const y2 = targetY - arrowLength * Math.sin(angle + arrowAngle);
+  private renderAxis(xScale: d3.ScaleTime<number, number>): void {
+    const tiers = this.getAxisTiers();
+    const tierSelection = this.axisGroup
+      .selectAll<SVGGElement, AxisTier>(".d3-axis-tier")
+      .data(tiers);
+    tierSelection.exit().remove();
+
+    tierSelection
+      .enter()
+      .append("g")
+      .attr("class", "d3-axis-tier")
+      .merge(tierSelection)
+      .each((tier, i, nodes) => {
+        const group = d3.select<SVGGElement, AxisTier>(nodes[i]);
+        if (tier.interval) {
+          this.renderAxisIntervals(group, tier, i, xScale);
+        } else {
+          this.renderAxisTicks(group, tier, i, xScale);
+        }
+      });
+  }
 
+  // 自动刻度的一层，使用 d3 坐标轴
+  private renderAxisTicks(
+    group: d3.Selection<SVGGElement, AxisTier, null, undefined>,
+    tier: AxisTier,
+    index: number,
+    xScale: d3.ScaleTime<number, number>,
+  ): void {
+    const count = this.getAxisTiers().length;
+    const height = this.options.axisHeight;
+    this.xAxis = this.createAxis(xScale).tickSizeOuter(0);
+    if (tier.format) {
+      this.xAxis.tickFormat(this.getTierFormat(tier.format));
+    }
+    // 顶部坐标轴的刻度朝上，刻度线位于每一层的下边缘
+    const offset = this.isAxisOnTop() ? (index + 1) * height : index * height;
     group
-      .append("path")
-      .attr("class", "stage-arrow")
       .attr(
-        "d",
-        `M ${targetX} ${targetY} L ${x1} ${y1} M ${targetX} ${targetY} L ${x2} ${y2}`,
+        "transform",
+        this.isVertical()
+          ? `translate(${-(count - 1 - index) * height}, 0)`
+          : `translate(0, ${offset})`,
       )
-      .attr("stroke", params.color)
-      .attr("stroke-width", params.size)
-      .attr("fill", "none");
+      .call(this.xAxis);
   }
 
-  private renderAxis(xScale: d3.ScaleTime<number, number>): void {
-    this.xAxis = d3
-      .axisBottom<Date>(xScale)
-      .ticks(this.options.width / 80)
-      .tickSizeOuter(0);
+  // 按间隔划分的一层，标签横跨整个间隔
+  private renderAxisIntervals(
+    group: d3.Selection<SVGGElement, AxisTier, null, undefined>,
+    tier: AxisTier,
+    index: number,
+    xScale: d3.ScaleTime<number, number>,
+  ): void {
+    const count = this.getAxisTiers().length;
+    const height = this.options.axisHeight;
+    const [start, end] = xScale.domain();
+    const [left, right] = xScale.range();
+    const segments = this.getIntervalSegments(
+      tier.interval!,
+      start,
+      end,
+      right - left,
+    );
+    const format = this.getTierFormat(tier.format);
+    const sticky = this.options.axis.stickyLabels ?? false;
+    const padding = 4;
+
+    // 与内容组一样使用布局坐标，纵向模式下交换横纵坐标
+    group.attr(
+      "transform",
+      this.isVertical()
+        ? `matrix(0, 1, 1, 0, ${-(count - index) * height}, 0)`
+        : `translate(0, ${index * height})`,
+    );
+
+    group
+      .selectAll<SVGLineElement, [Date, Date]>(".d3-axis-boundary")
+      .data(segments.filter(([a]) => a >= start))
+      .join("line")
+      .attr("class", "d3-axis-boundary")
+      .attr("x1", ([a]) => xScale(a))
+      .attr("x2", ([a]) => xScale(a))
+      .attr("y1", 0)
+      .attr("y2", height);
+
+    group
+      .selectAll<SVGTextElement, [Date, Date]>(".d3-axis-label")
+      .data(segments)
+      .join((enter) =>
+        enter
+          .append("text")
+          .attr("class", "d3-axis-label")
+          .attr("transform", this.getContentTransform())
+          .attr("dominant-baseline", "middle")
+          .attr("fill", "currentColor"),
+      )
+      .attr("text-anchor", sticky ? "start" : "middle")
+      .attr(this.textAttr("y"), height / 2)
+      .text(([a]) => format(a))
+      .each((segment, i, nodes) => {
+        const x0 = Math.max(xScale(segment[0]), left);
+        const x1 = Math.min(xScale(segment[1]), right);
+        let x = (x0 + x1) / 2;
+        if (sticky) {
+          // 标签贴在可见部分的左边缘，区间即将移出视口时被下一个区间推走
+          const length = this.isVertical()
+            ? height / 2
+            : nodes[i].getComputedTextLength();
+          x = Math.max(
+            xScale(segment[0]) + padding,
+            Math.min(x0 + padding, xScale(segment[1]) - length - padding),
+          );
+        }
+        d3.select(nodes[i]).attr(this.textAttr("x"), x);
+      });
+  }
+
+  /**
+   * 计算可见范围内按间隔划分的区间，非本地时区时在墙上时间中划分
+   * @param interval - 时间间隔
+   * @param start - 可见范围的开始时间
+   * @param end - 可见范围的结束时间
+   * @param width - 可见范围的像素宽度，区间过密时不划分
+   */
+  private getIntervalSegments(
+    interval: d3.TimeInterval,
+    start: Date,
+    end: Date,
+    width: number,
+  ): [Date, Date][] {
+    const wallStart = interval.floor(this.toWallTime(start));
+    const wallEnd = this.toWallTime(end);
+    const step = interval.offset(wallStart, 1).getTime() - wallStart.getTime();
+    if (
+      step <= 0 ||
+      (wallEnd.getTime() - wallStart.getTime()) / step > width / 2
+    ) {
+      return [];
+    }
+    const bounds = interval.range(wallStart, wallEnd);
+    if (bounds[0]?.getTime() !== wallStart.getTime()) bounds.unshift(wallStart);
+    bounds.push(interval.offset(bounds[bounds.length - 1], 1));
+    const toInstant = (wall: Date) =>
+      this.isZonedTime() ? fromZonedTime(wall, this.options.timeZone) : wall;
+    return d3.pairs(bounds, (a, b) => [toInstant(a), toInstant(b)]);
+  }
+
+  private getTierFormat(format?: AxisTier["format"]): (date: Date) => string {
+    if (typeof format === "function") return format;
+    return format ? this.formatTime(format) : this.tickFormat;
+  }
+
+  private getTooltipOptions(): TooltipOptions | undefined {
+    return this.options.tooltip === false ? undefined : this.options.tooltip;
+  }
 
-    // 重新渲染轴
-    this.axisGroup.call(this.xAxis);
+  private showTooltip(event: Event, data: EventData, rect: DOMRect): void {
+    const options = this.getTooltipOptions();
+    // 固定模式只在点击事件时显示
+    if (!this.tooltip || !options || options.placement === "pinned") return;
+
+    this.clearTooltipTimer();
+    this.tooltipAnchor =
+      options.placement === "follow" && event instanceof MouseEvent
+        ? new DOMRect(event.clientX, event.clientY, 0, 0)
+        : rect;
+    const delay = options.delay ?? 0;
+    // 键盘聚焦时立即显示
+    if (delay > 0 && event instanceof MouseEvent) {
+      this.tooltipTimer = window.setTimeout(
+        () => this.openTooltip(data),
+        delay,
+      );
+    } else {
+      this.openTooltip(data);
+    }
   }
 
-  private showTooltip(
-    _: MouseEvent,
+  /**
+   * 键盘聚焦时显示事件详情
+   *
+   * @remarks
+   * 固定模式下直接显示（失去焦点时隐藏，不影响点击固定的工具提示）；
+   * 禁用工具提示时，SVG 模式通过 aria-describedby 关联详情，canvas 模式通过实时区域播报。
+   * @param data - 聚焦的事件
+   * @param rect - 事件的位置（视口坐标）
+   * @param element - 聚焦的事件元素，canvas 模式下为空
+   */
+  private showFocusTooltip(
     data: EventData,
-    element: SVGGElement,
+    rect: DOMRect,
+    element?: SVGGElement,
   ): void {
+    if (!this.tooltip || !this.getTooltipOptions()) {
+      const content = this.renderTooltipContent(data);
+      if (typeof content === "string") {
+        this.eventDetails.html(content);
+      } else {
+        this.eventDetails.html("");
+        this.eventDetails.node()!.appendChild(content);
+      }
+      if (element) {
+        element.setAttribute("aria-describedby", this.eventDetails.attr("id"));
+      } else {
+        this.announce(this.eventDetails.text().replace(/\s+/g, " ").trim());
+      }
+      return;
+    }
+    if (!element) this.announce(this.describeEvent(data));
+    if (this.pinnedTooltipEventId === data.id) return;
+    this.hideTooltip(true);
+    this.tooltipAnchor = rect;
+    this.openTooltip(data);
+  }
+
+  private openTooltip(data: EventData): void {
+    if (!this.tooltip || !this.tooltipAnchor) return;
+    this.tooltipTimer = undefined;
+    this.tooltipData = data;
     this.tooltip.transition().duration(200).style("opacity", 1);
 
+    const content = this.renderTooltipContent(data);
+    if (typeof content === "string") {
+      this.tooltip.html(content);
+    } else {
+      this.tooltip.html("");
+      this.tooltip.node()!.appendChild(content);
+    }
+    this.placeTooltip(this.tooltipAnchor);
+  }
+
+  private renderTooltipContent(data: EventData): string | Node {
     const timeline = this.timelines.find((t) => t.id === data.timelineId);
-    const content = `
+    const render = this.getTooltipOptions()?.render;
+    if (render) return render(data, timeline);
+    const messages = this.getMessages();
+    const [start, end] = this.formatEventBounds(data, this.formatTime("%c"));
+    return `
             <strong>${data.title}</strong><br>
             ${data.description ? data.description + "<br>" : ""}
-            时间线: ${timeline ? timeline.name : "未知"}<br>
-            开始: ${data.startTime.toLocaleString("zh-CN")}<br>
-            ${data.type === "range" ? `结束: ${data.endTime.toLocaleString("zh-CN")}` : ""}
+            ${messages.timeline}: ${timeline ? timeline.name : messages.unknown}<br>
+            ${messages.start}: ${start}<br>
+            ${data.type === "range" ? `${messages.end}: ${end}<br>` : ""}
+            ${data.type === "range" && !data.openStart ? `${messages.duration}: ${this.formatEventDuration(data)}<br>` : ""}
+            ${data.status ? `${messages.status}: ${messages.statuses[data.status]}<br>` : ""}
+            ${data.progress !== undefined ? `${messages.progress}: ${this.formatProgress(data)}` : ""}
         `;
+  }
 
-    this.tooltip.html(content);
-    const margin = 8;
-    // 获取被悬停元素的位置信息
-    const rect = element.getBoundingClientRect();
-    const tooltipNode = this.tooltip.node();
+  /**
+   * 根据位置策略放置工具提示
+   * @param rect - 锚点区域（视口坐标），跟随鼠标时为光标位置
+   */
+  private placeTooltip(rect: DOMRect): void {
+    const tooltipNode = this.tooltip?.node();
     if (!tooltipNode) return;
+    const placement = this.getTooltipOptions()?.placement ?? "above";
+    const margin = 8;
     const tooltipRect = tooltipNode.getBoundingClientRect();
-
-    // 计算位置：优先显示在元素上方，水平居中
-    let left = rect.left + rect.width / 2 - tooltipRect.width / 2;
-    let top = rect.top - tooltipRect.height - margin; // 10px 间距
-
-    // 如果上方空间不足（会超出视口顶部），则显示在元素下方
-    if (top < 0) {
-      top = rect.bottom + margin;
+    let left: number;
+    let top: number;
+
+    if (placement === "follow") {
+      // 显示在光标右下方，超出视口时翻转到另一侧
+      left = rect.left + margin * 2;
+      top = rect.top + margin * 2;
+      if (top + tooltipRect.height > window.innerHeight - margin) {
+        top = rect.top - tooltipRect.height - margin;
+      }
+      if (left + tooltipRect.width > window.innerWidth - margin) {
+        left = rect.left - tooltipRect.width - margin;
+      }
+    } else {
+      // 水平居中，优先显示在指定一侧，空间不足时翻转
+      left = rect.left + rect.width / 2 - tooltipRect.width / 2;
+      const above = rect.top - tooltipRect.height - margin;
+      const below = rect.bottom + margin;
+      if (placement === "below") {
+        const overflow =
+          below + tooltipRect.height > window.innerHeight - margin;
+        top = overflow && above >= 0 ? above : below;
+      } else {
+        top = above < 0 ? below : above;
+      }
     }
 
     // 水平边界检查：防止超出视口左右边缘
@@ -1464,10 +5649,93 @@ export class D3Timeline {
       left = window.innerWidth - tooltipRect.width - margin;
     }
 
-    this.tooltip.style("left", left + "px").style("top", top + "px");
+    this.tooltip!.style("left", left + "px").style("top", top + "px");
+  }
+
+  // 跟随鼠标模式下随指针移动
+  private moveTooltip(event: MouseEvent): void {
+    if (this.getTooltipOptions()?.placement !== "follow") return;
+    this.tooltipAnchor = new DOMRect(event.clientX, event.clientY, 0, 0);
+    // 延迟期间只更新锚点，显示时使用最新的位置
+    if (this.tooltipTimer !== undefined) return;
+    this.placeTooltip(this.tooltipAnchor);
+  }
+
+  /**
+   * 固定显示事件的工具提示，再次点击同一事件时关闭
+   * @param data - 被点击的事件
+   */
+  private pinTooltip(data: EventData): void {
+    if (!this.tooltip || this.getTooltipOptions()?.placement !== "pinned") {
+      return;
+    }
+    if (this.pinnedTooltipEventId === data.id) {
+      this.hideTooltip(true);
+      return;
+    }
+    const rect = this.getEventClientRect(data);
+    if (!rect) return;
+    this.pinnedTooltipEventId = data.id;
+    // 固定显示时允许与提示内容交互（选择文字、点击链接等）
+    this.tooltip.style("pointer-events", "auto");
+    this.tooltipAnchor = rect;
+    this.openTooltip(data);
+  }
+
+  // 缩放后让固定的工具提示跟随事件
+  private updatePinnedTooltip(): void {
+    if (this.pinnedTooltipEventId === undefined) return;
+    const data = this.events.find((e) => e.id === this.pinnedTooltipEventId);
+    const rect =
+      data && !this.isEventHidden(data) && this.getEventClientRect(data);
+    if (rect) {
+      this.placeTooltip(rect);
+    } else {
+      this.hideTooltip(true);
+    }
+  }
+
+  /**
+   * 获取事件在视口中的区域
+   * @param event - 事件数据
+   * @returns 视口坐标下的区域，事件未渲染时返回 undefined
+   */
+  private getEventClientRect(event: EventData): DOMRect | undefined {
+    if (this.isCanvasRenderer()) {
+      // 将画布坐标换算为视口坐标
+      const svgRect = this.svg.node()!.getBoundingClientRect();
+      const [x0, y0, x1, y1] = this.toScreenBounds(
+        this.calculateCanvasBounds(event, this.getCurrentXScale()),
+      );
+      return new DOMRect(svgRect.left + x0, svgRect.top + y0, x1 - x0, y1 - y0);
+    }
+    return this.eventGroup
+      .selectAll<SVGGElement, EventData>(".event")
+      .filter((d) => d.id === event.id)
+      .node()
+      ?.getBoundingClientRect();
+  }
+
+  private clearTooltipTimer(): void {
+    if (this.tooltipTimer !== undefined) {
+      window.clearTimeout(this.tooltipTimer);
+      this.tooltipTimer = undefined;
+    }
   }
 
-  private hideTooltip(): void {
+  /**
+   * 隐藏工具提示
+   * @param force - 是否同时关闭固定显示的工具提示
+   */
+  private hideTooltip(force = false): void {
+    this.clearTooltipTimer();
+    if (!this.tooltip) return;
+    if (this.pinnedTooltipEventId !== undefined) {
+      if (!force) return;
+      this.pinnedTooltipEventId = undefined;
+      this.tooltip.style("pointer-events", "none");
+    }
+    this.tooltipData = undefined;
     this.tooltip.transition().duration(200).style("opacity", 0);
   }
 
@@ -1484,7 +5752,7 @@ export class D3Timeline {
       .call(this.zoom)
       .transition()
       .duration(500)
-      .call(this.zoom.scaleTo, k, [this.xScale(midDate), 0])
+      .call(this.zoom.scaleTo, k, this.toZoomPoint(this.xScale(midDate)))
       .end();
   }
 
@@ -1497,7 +5765,7 @@ export class D3Timeline {
       .call(this.zoom)
       .transition()
       .duration(500)
-      .call(this.zoom.translateTo, this.xScale(midDate), 0)
+      .call(this.zoom.translateTo, ...this.toZoomPoint(this.xScale(midDate)))
       .end();
   }
 
@@ -1506,7 +5774,7 @@ export class D3Timeline {
    */
   public async fitRange() {
     const range = d3.extent(
-      this.events.flatMap((e) => [e.startTime, e.endTime]),
+      this.events.flatMap((e) => [e.startTime, this.getEventEnd(e)]),
     );
     if (range[0] && range[1]) {
       const targetRange = { start: range[0], end: range[1] };
@@ -1529,8 +5797,8 @@ export class D3Timeline {
     const oneday = 24 * 60 * 60 * 1000;
     const k = fullDiffTime / (diffTime + oneday);
     const midDate = new Date((startTime + endTime) / 2);
-    const x = this.xScale(midDate);
-    return new d3.ZoomTransform(k, x, 0);
+    const [x, y] = this.toZoomPoint(this.xScale(midDate));
+    return new d3.ZoomTransform(k, x, y);
   }
 
   private transformByRange(range: TimeRange) {
@@ -1545,6 +5813,9 @@ export class D3Timeline {
   public showStageLines() {
     this.stageLinesVisible = true;
     this.stageLineGroup.attr("style", "display: ''");
+    if (this.isCanvasRenderer()) {
+      this.drawCanvas(this.getCurrentXScale());
+    }
   }
   /**
    * 隐藏阶段连线
@@ -1552,6 +5823,9 @@ export class D3Timeline {
   public hideStageLines() {
     this.stageLinesVisible = false;
     this.stageLineGroup.attr("style", "display: none");
+    if (this.isCanvasRenderer()) {
+      this.drawCanvas(this.getCurrentXScale());
+    }
   }
 
   /**
@@ -1581,41 +5855,15 @@ export class D3Timeline {
    */
   public async resize(): Promise<void> {
     const containerNode = this.container.node() as HTMLElement;
-    this.options.width = containerNode.clientWidth || this.options.width;
-    this.options.height = this.calculateHeight();
-
-    this.svg
-      .attr("viewBox", [0, 0, this.options.width, this.options.height])
-      .attr("width", this.options.width)
-      .attr("height", this.options.height);
-    this.svg
-      .select(`#main-clip-rect-${this.options.id}`)
-      .attr("width", this.getTimelineInnerWidth())
-      .attr("height", clamp(this.getTimelineInnerHeight(), 0, Infinity));
-
+    // 沿时间方向的长度随容器变化，另一个方向由时间线布局决定
+    if (this.isVertical()) {
+      this.options.height = containerNode.clientHeight || this.options.height;
+    } else {
+      this.options.width = containerNode.clientWidth || this.options.width;
+    }
     this.setupScales();
-
-    this.axisGroup.attr(
-      "transform",
-      `translate(0, ${this.options.height - this.options.margin.bottom - this.options.axisHeight})`,
-    );
-
-    this.zoom
-      .extent([
-        [this.options.margin.left, 0],
-        [this.options.width - this.options.margin.right, this.options.height],
-      ])
-      .translateExtent([
-        [this.options.margin.left, -Infinity],
-        [this.options.width - this.options.margin.right, Infinity],
-      ]);
-
-    this.gridGroup.attr(
-      "y2",
-      this.options.height -
-        this.options.margin.bottom -
-        this.options.axisHeight,
-    );
+    this.layoutLanes();
+    this.updateDimensions();
 
     this.render(true);
     await this.fitRange();
@@ -1628,6 +5876,30 @@ export class D3Timeline {
     });
   }
 
+  // 根据当前宽度和时间线布局更新画布、裁剪区域、坐标轴和缩放范围
+  private updateDimensions(): void {
+    if (this.isVertical()) {
+      this.options.width = this.calculateHeight();
+    } else {
+      this.options.height = this.calculateHeight();
+    }
+    this.resizeCanvas();
+
+    this.svg
+      .attr("viewBox", [0, 0, this.options.width, this.options.height])
+      .attr("width", this.options.width)
+      .attr("height", this.options.height);
+    this.updateClipRect();
+    this.axisGroup.attr("transform", this.getAxisTransform());
+    this.updateZoomExtent();
+
+    const { height, margin } = this.getLayoutFrame();
+    this.gridGroup.attr(
+      "y2",
+      height - margin.bottom - this.getAxisBandHeight(),
+    );
+  }
+
   /**
    * 设置时间轴显示的时间范围
    * @param {Date} start - 开始时间
@@ -1664,6 +5936,169 @@ export class D3Timeline {
     return [...this.events];
   }
 
+  /**
+   * 注册事件渲染器，只对当前实例生效
+   *
+   * @remarks
+   * 事件通过 `shape` 字段指定渲染器名称，未注册的名称按默认形状绘制。
+   * 重复注册同一名称会覆盖之前的渲染器（包括内置渲染器），已绘制的事件会重新创建。
+   *
+   * @param {string} name - 渲染器名称
+   * @param {EventRenderer} renderer - 渲染器
+   *
+   * @example
+   * ```typescript
+   * timeline.registerEventRenderer("avatar", {
+   *   enter: (selection) =>
+   *     selection.append("image").attr("class", "d3-event-shape"),
+   *   update: (selection) =>
+   *     selection
+   *       .select("image")
+   *       .attr("href", (d) => d.icon ?? "")
+   *       .attr("x", -12)
+   *       .attr("y", -12)
+   *       .attr("width", 24)
+   *       .attr("height", 24),
+   * });
+   * timeline.addEvent({ title: "Review", shape: "avatar", icon: "/a.png" }, id);
+   * ```
+   */
+  public registerEventRenderer(name: string, renderer: EventRenderer): void {
+    this.eventRenderers.set(name, renderer);
+    this.eventRendererVersions.set(
+      name,
+      (this.eventRendererVersions.get(name) ?? 0) + 1,
+    );
+    this.render(true);
+  }
+
+  /**
+   * 添加时间区域
+   * @param {Partial<TimeRegion>} region - 区域配置，需指定 start 和 end，或指定 recurrence
+   * @returns {TimeRegion} 添加的时间区域
+   * @throws {Error} 如果既没有有效的时间范围，也没有有效的重复规则
+   */
+  public addTimeRegion(region: Partial<TimeRegion>): TimeRegion {
+    if (
+      region.recurrence
+        ? !this.isValidRecurrence(region.recurrence)
+        : !(region.start && region.end && region.start < region.end)
+    ) {
+      throw Error("The time region is invalid.");
+    }
+    const regionData: TimeRegion = {
+      ...region,
+      id: region.id ?? generateID(),
+      color: region.color ?? "#999",
+    };
+    this.timeRegions.push(regionData);
+    this.emitDataChange("addTimeRegion");
+    this.renderTimeRegions(this.getCurrentXScale());
+    return regionData;
+  }
+
+  // 检查重复规则：每周规则的星期为 0-6 的整数，每日规则的时刻为 HH:mm 格式
+  private isValidRecurrence(recurrence: TimeRegionRecurrence): boolean {
+    if (recurrence.type === "weekly") {
+      return (
+        Array.isArray(recurrence.days) &&
+        recurrence.days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+      );
+    }
+    const time = /^([01]\d|2[0-3]):[0-5]\d$/;
+    return (
+      recurrence.type === "daily" &&
+      time.test(recurrence.from) &&
+      time.test(recurrence.to)
+    );
+  }
+
+  /**
+   * 删除时间区域
+   * @param {ID} id - 区域ID
+   */
+  public removeTimeRegion(id: ID): void {
+    const count = this.timeRegions.length;
+    this.timeRegions = this.timeRegions.filter((r) => r.id !== id);
+    if (this.timeRegions.length === count) return;
+    this.emitDataChange("removeTimeRegion");
+    this.renderTimeRegions(this.getCurrentXScale());
+  }
+
+  /**
+   * 添加标记线
+   * @param {Partial<MarkerData>} marker - 标记配置，time 必填
+   * @returns {MarkerData} 添加的标记线
+   * @throws {Error} 如果未指定时刻或ID已存在
+   */
+  public addMarker(marker: Partial<MarkerData>): MarkerData {
+    if (!marker.time) {
+      throw Error("The marker time is not specified.");
+    }
+    if (
+      marker.id !== undefined &&
+      this.markers.some((m) => m.id === marker.id)
+    ) {
+      throw Error("The marker id already exists.");
+    }
+    const markerData: MarkerData = {
+      ...marker,
+      id: marker.id ?? generateID(),
+      time: marker.time,
+    };
+    this.markers.push(markerData);
+    this.emitDataChange("addMarker");
+    this.refreshMarkers();
+    return markerData;
+  }
+
+  /**
+   * 删除标记线
+   * @param {ID} id - 标记ID
+   */
+  public removeMarker(id: ID): void {
+    const count = this.markers.length;
+    this.markers = this.markers.filter((m) => m.id !== id);
+    if (this.markers.length === count) return;
+    this.emitDataChange("removeMarker");
+    this.refreshMarkers();
+  }
+
+  /**
+   * 更新标记线
+   * @param {ID} id - 标记ID
+   * @param {Partial<Omit<MarkerData, "id">>} patch - 需要更新的字段
+   * @returns {MarkerData | null} 成功返回更新后的标记线，未找到返回null
+   */
+  public updateMarker(
+    id: ID,
+    patch: Partial<Omit<MarkerData, "id">>,
+  ): MarkerData | null {
+    const index = this.markers.findIndex((m) => m.id === id);
+    if (index < 0) return null;
+    const marker: MarkerData = { ...this.markers[index], ...patch, id };
+    this.markers[index] = marker;
+    this.emitDataChange("updateMarker");
+    this.refreshMarkers();
+    return marker;
+  }
+
+  /**
+   * 获取所有标记线的副本（不包括当前时间标记）
+   * @returns {MarkerData[]} 标记线数组
+   */
+  public getMarkers(): MarkerData[] {
+    return [...this.markers];
+  }
+
+  /**
+   * 获取所有时间区域的副本
+   * @returns {TimeRegion[]} 时间区域数组
+   */
+  public getTimeRegions(): TimeRegion[] {
+    return [...this.timeRegions];
+  }
+
   /**
    * 导出当前时间轴和事件的完整状态数据
    * @returns {ExportData} 包含时间轴、事件和时间范围的对象
@@ -1673,6 +6108,8 @@ export class D3Timeline {
       timelines: [...this.timelines],
       events: [...this.events],
       timeRange: { ...this.timeRange },
+      timeRegions: [...this.timeRegions],
+      markers: [...this.markers],
     };
   }
   /**
@@ -1693,13 +6130,21 @@ export class D3Timeline {
    */
   public importData(data: ExportData): boolean {
     try {
+      this.assertTimelineHierarchy(data.timelines);
       this.timelines = [...data.timelines];
       this.events = [...data.events];
       this.timeRange = { ...data.timeRange };
+      this.timeRegions = [...(data.timeRegions ?? [])];
+      this.markers = [...(data.markers ?? [])];
+      this.emitDataChange("importData");
       this.resize();
       return true;
     } catch (error: any) {
-      this.logger.error(`数据导入失败: ${error.message}`);
+      this.logger.error(
+        formatMessage(this.getMessages().importFailed, {
+          message: error.message,
+        }),
+      );
       return false;
     }
   }
@@ -1718,8 +6163,14 @@ export class D3Timeline {
    */
   public destroy(): void {
     this.removeEventListeners();
-    this.tooltip.remove();
+    this.clearTooltipTimer();
+    window.clearInterval(this.nowMarkerTimer);
+    window.clearInterval(this.liveUpdateTimer);
+    this.tooltip?.remove();
+    this.liveRegion.remove();
+    this.eventDetails.remove();
     this.svg.remove();
+    this.applyThemeProperties(this.container, true);
     this.detachPlugins();
   }
 }
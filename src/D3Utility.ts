@@ -162,3 +162,105 @@ export function debounce<T extends (...args: any[]) => any>(
 
   return _debounce;
 }
+
+/**
+ * 区间装箱：为相互重叠的区间分配不同的行号
+ *
+ * @typeParam T - 区间元素的类型
+ *
+ * @remarks
+ * 采用贪心算法：按开始时间升序（开始相同时按结束时间升序）依次处理区间，
+ * 将每个区间放入第一个不与之重叠的行；如果所有行都被占用，则新开一行。
+ * 首尾相接的两个区间（前者结束等于后者开始）视为不重叠，
+ * 但长度为0的区间（时间点）与相同位置的任何区间都视为重叠。
+ *
+ * @param items - 区间元素数组
+ * @param getStart - 获取区间开始值的函数
+ * @param getEnd - 获取区间结束值的函数
+ * @returns 与 items 一一对应的行号数组（从0开始）
+ *
+ * @example
+ * ```typescript
+ * packIntervals(
+ *   [{ s: 0, e: 5 }, { s: 3, e: 8 }, { s: 6, e: 9 }],
+ *   (d) => d.s,
+ *   (d) => d.e,
+ * ); // 返回 [0, 1, 0]
+ * ```
+ */
+export function packIntervals<T>(
+  items: T[],
+  getStart: (item: T) => number,
+  getEnd: (item: T) => number,
+): number[] {
+  const order = items
+    .map((_, i) => i)
+    .sort(
+      (a, b) =>
+        getStart(items[a]) - getStart(items[b]) ||
+        getEnd(items[a]) - getEnd(items[b]),
+    );
+  const rowEnds: { end: number; point: boolean }[] = [];
+  const result: number[] = new Array(items.length);
+
+  order.forEach((i) => {
+    const start = getStart(items[i]);
+    const end = Math.max(start, getEnd(items[i]));
+    const point = start === end;
+    let row = rowEnds.findIndex(
+      (r) => r.end < start || (r.end === start && !r.point && !point),
+    );
+    if (row < 0) {
+      row = rowEnds.length;
+      rowEnds.push({ end, point });
+    } else {
+      rowEnds[row] = { end, point };
+    }
+    result[i] = row;
+  });
+
+  return result;
+}
+
+/**
+ * 区间合并：将相互重叠或首尾相接的区间合并为不相交的区间
+ *
+ * @typeParam T - 区间元素的类型
+ *
+ * @param items - 区间元素数组
+ * @param getStart - 获取区间开始值的函数
+ * @param getEnd - 获取区间结束值的函数
+ * @returns 按开始值升序排列的合并后区间 `[start, end]` 数组
+ *
+ * @example
+ * ```typescript
+ * mergeIntervals(
+ *   [{ s: 6, e: 9 }, { s: 0, e: 5 }, { s: 3, e: 4 }],
+ *   (d) => d.s,
+ *   (d) => d.e,
+ * ); // 返回 [[0, 5], [6, 9]]
+ * ```
+ */
+export function mergeIntervals<T>(
+  items: T[],
+  getStart: (item: T) => number,
+  getEnd: (item: T) => number,
+): [number, number][] {
+  const intervals = items
+    .map((item): [number, number] => {
+      const start = getStart(item);
+      return [start, Math.max(start, getEnd(item))];
+    })
+    .sort((a, b) => a[0] - b[0]);
+
+  const result: [number, number][] = [];
+  intervals.forEach(([start, end]) => {
+    const last = result[result.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      result.push([start, end]);
+    }
+  });
+  return result;
+}
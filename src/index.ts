@@ -1,3 +1,5 @@
 export * from "./D3Timeline";
 export * from "./D3LocaleDefinitions";
+export * from "./D3ThemeDefinitions";
+export * from "./D3EventRenderers";
 import "./D3timeline.css";